@@ -5,7 +5,22 @@ import mdx from '@astrojs/mdx';
 
 import sitemap from '@astrojs/sitemap';
 
+import seoAudit from './scripts/seo-audit-integration.ts';
+import { lastModifiedForUrl, remarkContentMeta } from './src/lib/remark-content-meta.ts';
+import { rehypeGlossary } from './src/lib/rehype-glossary.ts';
+import seoAuditConfig from './seo-audit.config.ts';
+
 export default defineConfig({
   site: 'https://keyrxng.xyz',
-  integrations: [mdx(), sitemap()],
-});
\ No newline at end of file
+  // Reading time and last-modified dates for content entries, glossary links on first mention
+  // (MDX inherits these plugins)
+  markdown: { remarkPlugins: [remarkContentMeta], rehypePlugins: [rehypeGlossary] },
+  integrations: [
+    mdx(),
+    sitemap({
+      serialize: (item) => ({ ...item, lastmod: lastModifiedForUrl(item.url) ?? item.lastmod }),
+    }),
+    // Runs after sitemap so the crawlability check sees sitemap-index.xml.
+    seoAudit({ config: seoAuditConfig }),
+  ],
+});
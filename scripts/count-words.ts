@@ -0,0 +1,14 @@
+/*
+  Word tokenizer shared by the SEO audit (scripts/seo-audit.ts) and the reading times in
+  src/lib/remark-content-meta.ts, so the site never has to load the whole audit to count words.
+*/
+
+/** Lowercase letter-only words; digits and punctuation split words rather than count as them. */
+export function readabilityWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z\s]/g, " ").split(/\s+/).filter(Boolean);
+}
+
+/** Words as the audit counts them (`wordCount`); the site's reading times use the same count. */
+export function countWords(text: string): number {
+  return readabilityWords(text).length;
+}
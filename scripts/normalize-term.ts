@@ -0,0 +1,20 @@
+/*
+  Term normalization shared by the SEO audit (scripts/seo-audit.ts) and the site search
+  index (src/lib/search.ts). Kept free of Node imports so the search UI can bundle it and
+  stem queries exactly the way the index was built.
+*/
+
+import stemmer from "stemmer";
+
+// Normalize tokens: lowercase, strip punctuation, stem
+export function normalizeTerm(t: string): string {
+  const s = t.toLowerCase().replace(/[^a-z0-9\s]/g, "").trim();
+  if (!s) return "";
+  // Avoid stemming numbers and short tokens
+  if (/^\d+$/.test(s) || s.length <= 2) return s;
+  try {
+    return stemmer(s);
+  } catch {
+    return s;
+  }
+}
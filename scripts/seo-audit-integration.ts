@@ -0,0 +1,81 @@
+/*
+  Astro integration for the SEO audit: runs scripts/seo-audit.ts against the build output
+  in the astro:build:done hook, writes the reports and fails the build on findings at or
+  above `failOn`.
+
+    import seoAudit from './scripts/seo-audit-integration.ts';
+    import seoAuditConfig from './seo-audit.config.ts';
+    integrations: [seoAudit({ config: seoAuditConfig, failOn: 'error' })]
+*/
+
+import type { AstroIntegration } from "astro";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  DEFAULT_CACHE_FILE,
+  generateReport,
+  writeReports,
+  type AuditOptions,
+  type OutputFormat,
+  type Severity,
+} from "./seo-audit";
+
+export type SeoAuditIntegrationOptions = Omit<AuditOptions, "rootDir"> & {
+  /** JSON report path, other formats are written next to it. Default ./seo-report.json; null writes nothing */
+  outFile?: string | null;
+  /** Default ["json", "md"] */
+  formats?: OutputFormat[];
+  /** Lowest severity that fails the build, or "never" to only report. Default "error" */
+  failOn?: Severity | "never";
+};
+
+const SEVERITY_RANK: Record<Severity, number> = { error: 3, warn: 2, info: 1 };
+
+export default function seoAudit(options: SeoAuditIntegrationOptions = {}): AstroIntegration {
+  const {
+    outFile = "./seo-report.json",
+    formats = ["json", "md"],
+    failOn = "error",
+    cacheFile = DEFAULT_CACHE_FILE,
+    sourceRoot = "./src",
+    ...auditOptions
+  } = options;
+  return {
+    name: "seo-audit",
+    hooks: {
+      "astro:build:done": async ({ dir, logger }) => {
+        const resolvedSource = sourceRoot ? path.resolve(sourceRoot) : null;
+        const report = await generateReport({
+          ...auditOptions,
+          rootDir: fileURLToPath(dir),
+          cacheFile: cacheFile ? path.resolve(cacheFile) : null,
+          sourceRoot: resolvedSource,
+        });
+        if (outFile) {
+          await writeReports(report, {
+            outFile: path.resolve(outFile),
+            formats,
+            sourceRoot: resolvedSource ?? path.resolve("./src"),
+            checks: auditOptions.checks,
+          });
+        }
+
+        const counts = { error: 0, warn: 0, info: 0 };
+        const failing: string[] = [];
+        for (const d of report.documents) {
+          for (const w of d.warnings) {
+            counts[w.severity]++;
+            if (failOn !== "never" && SEVERITY_RANK[w.severity] >= SEVERITY_RANK[failOn]) {
+              failing.push(`${path.relative(report.rootDir, d.filePath)}: [${w.ruleId}] ${w.message}`);
+            }
+          }
+        }
+        logger.info(`${report.documents.length} files audited: ${counts.error} errors, ${counts.warn} warnings, ${counts.info} notes`);
+        if (failing.length === 0) return;
+        for (const line of failing.slice(0, 20)) logger.error(line);
+        if (failing.length > 20) logger.error(`...and ${failing.length - 20} more`);
+        throw new Error(`SEO audit found ${failing.length} finding(s) at or above "${failOn}"`);
+      },
+    },
+  };
+}
@@ -1,22 +1,77 @@
 /*
   SEO Audit Script
   Usage:
-    npx --yes tsx scripts/seo-audit.ts [--root ./src] [--out ./seo-report.json]
+    npx --yes tsx scripts/seo-audit.ts [--root ./src] [--out ./seo-report.json] [--baseline ./previous-report.json]
+                                      [--config ./seo-audit.config.ts] [--cache <file> | --no-cache]
+                                      [--format json,md,html,sarif] [--src ./src]
+    npx --yes tsx scripts/seo-audit.ts --watch [--root ./src/content]
 
   This script crawls content under the given root (default ./src) and analyzes:
     - Titles, meta descriptions, headings
-    - Word counts, reading ease (Flesch) and grade level
+    - Word counts, reading ease (Flesch) and grade level (Flesch-Kincaid, Gunning Fog, SMOG,
+      Coleman-Liau), per-H2 breakdown and the hardest sentences with their source line
     - Internal vs external links, images without alt text
     - Keyword frequencies, n-grams (1-3), and TF-IDF across all documents
     - Flags missing/weak SEO elements (missing title/description/H1, long/short lengths)
+    - Broken internal links and #fragment anchors (when auditing built HTML, e.g. ./dist)
+    - Keyword cannibalization (pairwise TF-IDF cosine similarity) and near-duplicate
+      meta descriptions (word shingles + Jaccard)
+    - JSON-LD structured data: parse errors, required/recommended properties per
+      schema.org type, ISO dates, image URLs present in the build, breadcrumb positions
+    - Social cards: a single absolute og:image that exists as a 1200×630 PNG, og:url
+      matching the canonical link, og:title/og:description lengths, twitter:card vs image shape
+    - Crawlability: the sitemap index and its child sitemaps diffed against the crawled pages
+      (unlisted pages, listed URLs with no page, noindex pages in the sitemap) and robots.txt
+      Disallow rules that block built pages
+    - Accessibility: skipped heading levels, multiple H1s, vague or empty link text, missing
+      <html lang>, unnamed buttons, aria-labelledby pointing at missing ids, images without alt
+    - Target keywords declared in frontmatter (`targetKeywords`): presence in title, H1,
+      description and first paragraph, density, rank among the page's own terms, and
+      which other pages rank higher for the same term
+    - Performance (built HTML): per-route bytes of HTML/CSS/JS/fonts/images against budgets,
+      render-blocking stylesheets, heaviest and unoptimized assets, weight per asset folder
+    - Internal link graph: orphan pages, click depth from /, PageRank-style authority, and
+      TF-IDF-ranked link sources for weakly linked pages
 
   It supports .md, .mdx, .astro, .json files.
+
+  Checks are rules with an ID and a severity (error/warn/info). Thresholds, severities
+  and per-glob overrides/ignores come from seo-audit.config.ts when present.
+
+  With --baseline, the new report is diffed against an earlier JSON report and the
+  process exits with code 1 when anything regressed (new warnings, newly missing
+  metadata, new duplicate titles or broken links, readability/word-count drops).
+
+  --format picks the outputs written next to --out (default json,md): an HTML dashboard with
+  sortable per-page tables, and SARIF for code review annotations. SARIF results point at the
+  source files under --src, mapping built routes back to content entries and pages. --src is
+  also where built pages look up their frontmatter `targetKeywords`.
+
+  The same audit is available as a library: generateReport({ rootDir, config, checks, ... })
+  takes extra rules alongside the built-in ones, and scripts/seo-audit-integration.ts runs it
+  from Astro's astro:build:done hook so `astro build` reports (and can fail on) findings.
+
+  --watch audits ./src/content (or --root) and re-runs on every save: only the saved file is
+  re-analyzed (through the cache, which watch mode always uses), corpus TF-IDF is recomputed,
+  and a compact view prints that file's findings, readability and keywords plus corpus-level
+  changes such as a newly duplicated title or a warning that appeared on another page.
+
+  Per-file metrics are cached (default node_modules/.cache/seo-audit/cache.json), keyed by
+  the file's content hash plus a version hash of this script, the config and the root.
+  Unchanged files skip parsing; corpus-level TF-IDF and the summary are always recomputed,
+  so a warm run produces the same report as a cold one.
 */
 
+import { createHash } from "node:crypto";
 import { promises as fs } from "node:fs";
 import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
 import { load as loadCheerio } from "cheerio";
-import stemmer from "stemmer";
+import type { Element } from "domhandler";
+import { countWords, readabilityWords } from "./count-words";
+import { normalizeTerm } from "./normalize-term";
+
+export { countWords, normalizeTerm };
 
 type DocumentMetrics = {
   filePath: string;
@@ -28,15 +83,172 @@ type DocumentMetrics = {
   sentenceCount: number;
   fleschReadingEase: number;
   fleschKincaidGrade: number;
+  gunningFog: number;
+  smogIndex: number;
+  colemanLiau: number;
+  readabilitySections: SectionReadability[];
+  hardSentences: HardSentence[];
   internalLinks: string[];
   externalLinks: string[];
+  anchorIds: string[];
+  canonicalUrls: string[];
+  robotsMeta?: string;
+  social: SocialMeta;
+  jsonLd: unknown[];
+  jsonLdErrors: string[];
   imagesWithoutAlt: number;
-  warnings: string[];
+  a11y: A11yFacts;
+  resources: PageResources;
+  warnings: Warning[];
   tokens: string[];
   bigrams: string[];
   trigrams: string[];
   tfidfTerms: string[];
   topKeywords?: Array<{ term: string; tfidf: number }>;
+  firstParagraph?: string;
+  /** Declared in frontmatter; for built pages, read from the source entry */
+  targetKeywords: string[];
+  keywordTargets?: KeywordTarget[];
+};
+
+type SectionReadability = {
+  /** H2 text; "" for the text before the first H2 */
+  heading: string;
+  wordCount: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+};
+
+type HardSentence = {
+  text: string;
+  section: string;
+  words: number;
+  polysyllables: number;
+  grade: number;
+  /** Source file (relative to the cwd) and 1-based line, when it could be found */
+  source?: string;
+  line?: number;
+};
+
+type AssetKind = "html" | "css" | "js" | "font" | "image";
+
+type PageResources = {
+  stylesheets: string[];
+  scripts: string[];
+  images: string[];
+  fonts: string[];
+  /** Stylesheets and classic scripts in <head> that block first render */
+  renderBlocking: string[];
+};
+
+type PageWeight = {
+  filePath: string;
+  route: string;
+  bytes: Record<AssetKind | "total", number>;
+  requests: number;
+};
+
+type PerformanceSummary = {
+  /** Heaviest first */
+  pages: PageWeight[];
+  heaviestAssets: Array<{ file: string; kind: AssetKind; bytes: number; pages: number }>;
+  unoptimizedAssets: Array<{ file: string; bytes: number; reason: string; pages: number }>;
+  assetDirectories: Array<{ dir: string; files: number; bytes: number }>;
+};
+
+type A11yFacts = {
+  /** Every heading in document order */
+  headingOutline: Array<{ level: number; text: string }>;
+  /** `lang` of the <html> element; only meaningful for built pages */
+  lang?: string;
+  vagueLinks: Array<{ text: string; href: string }>;
+  unnamedButtons: string[];
+  /** aria-labelledby references to ids that are missing or not unique */
+  brokenLabelledBy: Array<{ element: string; missing: string[]; duplicated: string[] }>;
+  /** alt="" marks an image as decorative, so only a missing attribute counts */
+  imagesMissingAlt: number;
+};
+
+type KeywordTarget = {
+  keyword: string;
+  inTitle: boolean;
+  inH1: boolean;
+  inDescription: boolean;
+  inFirstParagraph: boolean;
+  /** Occurrences per 100 words */
+  density: number;
+  /** Position among the page's own TF-IDF terms (1 = strongest), null when absent */
+  rank: number | null;
+  outrankedBy: Array<{ filePath: string; score: number }>;
+};
+
+export type Severity = "error" | "warn" | "info";
+
+type Warning = {
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  /**
+   * What the finding is about (a URL, keyword, sentence) when its message also carries measured
+   * values; baseline comparisons match on it so a title going from 70 to 72 characters stays one
+   * warning. Empty for rules that report at most once per page.
+   */
+  subject?: string;
+};
+
+/** What a check returns per finding: the message, or the message and its Warning.subject */
+export type Finding = string | { message: string; subject: string };
+
+/** A rule is configured either by severity alone or by an object carrying thresholds. */
+type RuleSetting = Severity | "off" | { severity?: Severity | "off"; min?: number; max?: number };
+
+export type SeoAuditConfig = {
+  rules?: Record<string, RuleSetting>;
+  similarity?: {
+    /** Cosine similarity (0-1) above which two pages are reported as competing. Default 0.5 */
+    pageThreshold?: number;
+    /** Jaccard similarity (0-1) of description shingles that counts as near-duplicate. Default 0.5 */
+    descriptionThreshold?: number;
+    /** Words per description shingle. Default 3 */
+    shingleSize?: number;
+    /** Pages shorter than this are left out of the page comparison. Default 150 */
+    minWords?: number;
+  };
+  performance?: {
+    /** Per-page budgets in KB, by asset kind or for the whole page. Default { total: 1000 } */
+    budgetsKb?: Partial<Record<AssetKind | "total", number>>;
+  };
+  linkGraph?: {
+    /** Pages with at most this many linking pages count as weakly linked. Default 3 */
+    weakInbound?: number;
+    /** Pages deeper than this many clicks from / count as weakly linked. Default 3 */
+    maxDepth?: number;
+    /** Link sources suggested per weakly linked page. Default 3 */
+    suggestions?: number;
+  };
+  /**
+   * Later entries win. Patterns starting with "/" match the page route (e.g. "/tags/**"),
+   * anything else matches the file path relative to --root (e.g. "**\/technologies/*.json").
+   */
+  overrides?: Array<{ files: string | string[]; ignore?: boolean; rules?: Record<string, RuleSetting> }>;
+};
+
+type ResolvedRule = { severity: Severity | "off"; min?: number; max?: number };
+
+type SocialMeta = {
+  ogImages: string[];
+  twitterImages: string[];
+  ogUrl?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  twitterCard?: string;
+};
+
+type ImageInfo = {
+  format: "png" | "jpeg" | "gif" | "webp" | "svg" | "unknown";
+  width?: number;
+  height?: number;
 };
 
 type CorpusSummary = {
@@ -49,13 +261,96 @@ type CorpusSummary = {
   pagesMissingDescription: string[];
   pagesMissingH1: string[];
   duplicateTitles: Array<{ title: string; files: string[] }>;
+  brokenLinks: BrokenLink[];
+  similarPages: SimilarPagePair[];
+  nearDuplicateDescriptions: DescriptionCluster[];
+  crawlability: Crawlability | null;
+  linkGraph: LinkGraph | null;
+  performance: PerformanceSummary | null;
+  /** a11y-* rule ID -> pages with that finding */
+  accessibility: Record<string, string[]>;
+};
+
+type SimilarPagePair = {
+  files: [string, string];
+  similarity: number;
+  sharedTerms: string[];
+};
+
+type DescriptionCluster = {
+  files: string[];
+  descriptions: string[];
+  similarity: number; // highest pairwise Jaccard within the cluster
+};
+
+type Crawlability = {
+  sitemaps: string[];
+  sitemapUrlCount: number;
+  missingFromSitemap: string[];
+  sitemapUrlsWithoutPage: string[];
+  noindexInSitemap: string[];
+  blockedByRobots: Array<{ url: string; rule: string }>;
+};
+
+type LinkGraph = {
+  pages: Array<{
+    filePath: string;
+    route: string;
+    inbound: number;
+    outbound: number;
+    /** Clicks from /, null when unreachable */
+    depth: number | null;
+    /** PageRank scaled so the average page scores 1 */
+    authority: number;
+  }>;
+  orphans: string[];
+  unreachable: string[];
+  suggestions: Array<{ route: string; inbound: number; depth: number | null; sources: Array<{ route: string; similarity: number }> }>;
+};
+
+type RobotsRule = { allow: boolean; pattern: string };
+
+type BrokenLink = {
+  filePath: string;
+  href: string;
+  reason: "missing-page" | "missing-anchor";
 };
 
-type Report = {
+export type Report = {
   generatedAt: string;
   rootDir: string;
   documents: DocumentMetrics[];
   summary: CorpusSummary;
+  comparison?: BaselineComparison;
+};
+
+type MetricRegression = {
+  page: string;
+  metric: "fleschReadingEase" | "wordCount";
+  before: number;
+  after: number;
+};
+
+type PageWarning = { page: string } & Warning;
+
+type BaselineComparison = {
+  baselineGeneratedAt: string;
+  newWarnings: PageWarning[];
+  resolvedWarnings: PageWarning[];
+  newlyMissingTitle: string[];
+  newlyMissingDescription: string[];
+  newlyMissingH1: string[];
+  newDuplicateTitles: Array<{ title: string; files: string[] }>;
+  newBrokenLinks: Array<{ page: string; href: string; reason: BrokenLink["reason"] }>;
+  metricRegressions: MetricRegression[];
+  regressionCount: number;
+};
+
+// A page only counts as regressed once it moves past these margins, so small
+// copy edits don't fail CI.
+const DEFAULT_REGRESSION_THRESHOLDS = {
+  fleschDrop: 10, // Flesch Reading Ease points
+  wordCountDropRatio: 0.2, // fraction of the previous word count
 };
 
 // Additional stopwords for domains, code, assets, docs
@@ -83,12 +378,34 @@ const EXTRA_STOPWORDS = new Set<string>([
   "title","description","pr","ci","cd"
 ]);
 
+export const DEFAULT_CACHE_FILE = "./node_modules/.cache/seo-audit/cache.json";
+
+const OUTPUT_FORMATS = ["json", "md", "html", "sarif"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
 const TEXT_EXTENSIONS = new Set([".md", ".mdx", ".astro", ".json", ".html"]);
 
-function parseArgs(): { rootDir: string; outFile: string | null } {
+function parseArgs(): {
+  rootDir: string;
+  outFile: string | null;
+  baselineFile: string | null;
+  configFile: string;
+  configRequired: boolean;
+  cacheFile: string | null;
+  formats: OutputFormat[];
+  sourceRoot: string;
+  watch: boolean;
+} {
   const args = process.argv.slice(2);
-  let rootDir = "./src";
+  let rootDir: string | null = null;
   let outFile: string | null = "./seo-report.json";
+  let baselineFile: string | null = null;
+  let configFile = "./seo-audit.config.ts";
+  let configRequired = false;
+  let cacheFile: string | null = DEFAULT_CACHE_FILE;
+  let formats: OutputFormat[] = ["json", "md"];
+  let sourceRoot = "./src";
+  let watch = false;
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === "--root" && args[i + 1]) {
@@ -97,14 +414,47 @@ function parseArgs(): { rootDir: string; outFile: string | null } {
     } else if (arg === "--out" && args[i + 1]) {
       outFile = args[i + 1];
       i++;
+    } else if (arg === "--config" && args[i + 1]) {
+      configFile = args[i + 1];
+      configRequired = true;
+      i++;
+    } else if (arg === "--cache" && args[i + 1]) {
+      cacheFile = args[i + 1];
+      i++;
+    } else if (arg === "--no-cache") {
+      cacheFile = null;
+    } else if (arg === "--baseline" && args[i + 1]) {
+      baselineFile = args[i + 1];
+      i++;
+    } else if (arg === "--format" && args[i + 1]) {
+      const requested = args[i + 1].split(",").map(f => f.trim().toLowerCase()).filter(Boolean);
+      const unknown = requested.filter(f => !(OUTPUT_FORMATS as readonly string[]).includes(f));
+      if (unknown.length) throw new Error(`Unknown --format ${unknown.join(", ")} (expected ${OUTPUT_FORMATS.join(", ")})`);
+      formats = requested as OutputFormat[];
+      i++;
+    } else if (arg === "--src" && args[i + 1]) {
+      sourceRoot = args[i + 1];
+      i++;
     } else if (arg === "--stdout") {
       outFile = null;
+    } else if (arg === "--watch") {
+      watch = true;
     }
   }
-  return { rootDir: path.resolve(process.cwd(), rootDir), outFile: outFile ? path.resolve(process.cwd(), outFile) : null };
+  return {
+    rootDir: path.resolve(process.cwd(), rootDir ?? (watch ? "./src/content" : "./src")),
+    outFile: outFile ? path.resolve(process.cwd(), outFile) : null,
+    baselineFile: baselineFile ? path.resolve(process.cwd(), baselineFile) : null,
+    configFile: path.resolve(process.cwd(), configFile),
+    configRequired,
+    cacheFile: cacheFile ? path.resolve(process.cwd(), cacheFile) : null,
+    formats,
+    sourceRoot: path.resolve(process.cwd(), sourceRoot),
+    watch,
+  };
 }
 
-async function walkFiles(startDir: string): Promise<string[]> {
+async function walkFiles(startDir: string, extensions: Set<string> | null = TEXT_EXTENSIONS): Promise<string[]> {
   const results: string[] = [];
   async function walk(dir: string) {
     let entries;
@@ -120,7 +470,7 @@ async function walkFiles(startDir: string): Promise<string[]> {
         await walk(full);
       } else if (entry.isFile()) {
         const ext = path.extname(entry.name).toLowerCase();
-        if (TEXT_EXTENSIONS.has(ext)) {
+        if (!extensions || extensions.has(ext)) {
           results.push(full);
         }
       }
@@ -194,6 +544,57 @@ function extractMetaFromAstroSource(raw: string): { title?: string; description?
   return { title, description };
 }
 
+/** Read a string list from frontmatter, in flow (`key: ["a", "b"]`) or block (`- a`) style. */
+function readFrontmatterList(raw: string, key: string): string[] {
+  const block = readFrontmatterBlock(raw);
+  if (!block) return [];
+  const m = new RegExp(`^${key}[ \\t]*:[ \\t]*(.*)$`, "m").exec(block);
+  if (!m) return [];
+  const unquote = (v: string) => v.trim().replace(/^(["'])(.*)\1$/, "$2").trim();
+  const rest = block.slice(m.index + m[0].length - m[1].length);
+  if (m[1].trim().startsWith("[")) {
+    const end = rest.indexOf("]");
+    const body = rest.slice(rest.indexOf("[") + 1, end === -1 ? undefined : end);
+    return (body.match(/"[^"]*"|'[^']*'|[^,\s][^,]*/g) ?? []).map(unquote).filter(Boolean);
+  }
+  const items: string[] = [];
+  for (const line of rest.split(/\r?\n/).slice(1)) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (!item) break;
+    items.push(unquote(item[1]));
+  }
+  return items.filter(Boolean);
+}
+
+/** First prose paragraph: skips headings, quotes, lists, code, imports and JSX. */
+function extractFirstParagraph(raw: string, ext: string): string | undefined {
+  if (ext === ".html") {
+    try {
+      const $ = loadCheerio(raw);
+      const scope = $("article").length ? $("article").first() : $("main").first();
+      const paragraphs = scope.find("p").filter((_, el) => !$(el).attr("style") && $(el).parents("blockquote, aside, figure, header, nav, .callout").length === 0);
+      for (const el of paragraphs.toArray()) {
+        const text = $(el).text().replace(/\s+/g, " ").trim();
+        if (text.split(" ").length >= 8) return text;
+      }
+    } catch {
+      // ignore parse errors
+    }
+    return undefined;
+  }
+  if (ext !== ".md" && ext !== ".mdx") return undefined;
+  let inFence = false;
+  const lines: string[] = [];
+  for (const line of stripFrontmatter(raw).split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) continue;
+    const plain = !/^\s*([#>|<{*+-]|\d+\.\s|```|~~~|import\s|export\s)/.test(line) && line.trim() !== "";
+    if (plain) lines.push(line.trim());
+    else if (lines.length) break;
+  }
+  return lines.length ? lines.join(" ") : undefined;
+}
+
 function extractFrontmatterMeta(raw: string, ext: string): { title?: string; description?: string } {
   if (ext === ".md" || ext === ".mdx") {
     const block = readFrontmatterBlock(raw);
@@ -245,10 +646,14 @@ function extractDescriptionFromHtml(html: string): string | undefined {
   return undefined;
 }
 
+// Tooltip text (glossary definitions linked into posts) belongs to another page
+const TOOLTIP_ELEMENT = /<(\w+)\b[^>]*\brole=["']tooltip["'][^>]*>[\s\S]*?<\/\1>/gi;
+
 function textFromHtml(htmlFragment: string): string {
   let s = htmlFragment
     .replace(/<script[\s\S]*?<\/script>/gi, " ")
     .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(TOOLTIP_ELEMENT, " ")
     .replace(/<[^>]+>/g, " ")
     .replace(/\{[\s\S]*?\}/g, " ") // strip MDX expressions
     .replace(/\s+/g, " ")
@@ -290,7 +695,7 @@ function extractHeadingsFromHtml(html: string): { h1: string[]; h2: string[]; h3
   }
 }
 
-function extractLinks(htmlOrMarkdown: string): { internal: string[]; external: string[] } {
+function extractLinks(htmlOrMarkdown: string, parseMarkdown = true): { internal: string[]; external: string[] } {
   const internal: string[] = [];
   const external: string[] = [];
   try {
@@ -299,7 +704,9 @@ function extractLinks(htmlOrMarkdown: string): { internal: string[]; external: s
       const url = $(el).attr("href") || "";
       if (isExternal(url)) external.push(url); else internal.push(url);
     });
-    // Also parse markdown-style links as a fallback
+    // Also parse markdown-style links as a fallback (skipped for built HTML, where
+    // `[x](y)` only appears inside code samples)
+    if (!parseMarkdown) return { internal, external };
     const mdLinkRe = /\[[^\]]*\]\(([^)]+)\)/g;
     let m: RegExpExecArray | null;
     while ((m = mdLinkRe.exec(htmlOrMarkdown)) !== null) {
@@ -323,6 +730,19 @@ function extractLinks(htmlOrMarkdown: string): { internal: string[]; external: s
   return { internal, external };
 }
 
+function extractAnchorIds(html: string): string[] {
+  try {
+    const $ = loadCheerio(html);
+    const ids = new Set<string>();
+    $("[id]").each((_, el) => { const id = $(el).attr("id"); if (id) ids.add(id); });
+    // Legacy named anchors are still valid fragment targets
+    $("a[name]").each((_, el) => { const name = $(el).attr("name"); if (name) ids.add(name); });
+    return Array.from(ids);
+  } catch {
+    return [];
+  }
+}
+
 function isExternal(href: string): boolean {
   if (!href) return false;
   if (href.startsWith("/") || href.startsWith("#") || href.startsWith(".")) return false;
@@ -367,7 +787,7 @@ function countImagesWithoutAlt(input: string): number {
   return count;
 }
 
-function toWords(raw: string): string[] {
+export function toWords(raw: string): string[] {
   return raw
     .toLowerCase()
     .replace(/[`~!@#$%^&*()_+={}[\]|\\:;"'<>,.?/\-]/g, " ")
@@ -414,23 +834,174 @@ function countSyllables(word: string): number {
   return Math.max(1, count);
 }
 
-function computeReadability(text: string): { fleschReadingEase: number; fleschKincaidGrade: number; wordCount: number; sentenceCount: number } {
+function readabilityFromCounts(c: { words: number; sentences: number; syllables: number; polysyllables: number; letters: number }) {
+  const sentences = Math.max(1, c.sentences);
+  const wordsPerSentence = c.words / sentences;
+  const syllablesPerWord = c.words ? c.syllables / c.words : 0;
+  return {
+    fleschReadingEase: 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord,
+    fleschKincaidGrade: 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59,
+    gunningFog: 0.4 * (wordsPerSentence + (c.words ? (100 * c.polysyllables) / c.words : 0)),
+    // SMOG is defined on 30-sentence samples; scale the polysyllable count to match
+    smogIndex: 1.043 * Math.sqrt(c.polysyllables * (30 / sentences)) + 3.1291,
+    colemanLiau: c.words ? 0.0588 * ((100 * c.letters) / c.words) - 0.296 * ((100 * sentences) / c.words) - 15.8 : 0,
+  };
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Prose of a page as blocks (paragraphs, list items, quotes) tagged with the H2 they sit
+ * under. Headings, tables and code are left out; for built pages only <article>/<main> counts.
+ */
+function proseBlocks(raw: string, ext: string): Array<{ section: string; text: string }> {
+  const blocks: Array<{ section: string; text: string }> = [];
+  let section = "";
+  if (ext === ".md" || ext === ".mdx") {
+    let paragraph: string[] = [];
+    const flush = () => {
+      const text = paragraph.join(" ").replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1").replace(/[*_`~]+/g, "").replace(/\s+/g, " ").trim();
+      if (text) blocks.push({ section, text });
+      paragraph = [];
+    };
+    for (const line of raw.split(/\r?\n/)) {
+      const h2 = /^\s*##\s+(.+)$/.exec(line);
+      if (h2 || /^\s*(#|\||import\s|export\s)/.test(line) || !line.trim()) {
+        flush();
+        if (h2) section = h2[1].trim();
+        continue;
+      }
+      if (/^\s*([-*+]|\d+\.)\s+/.test(line)) flush();
+      paragraph.push(line.replace(/^\s*(>\s*)*([-*+]|\d+\.)?\s*/, ""));
+    }
+    flush();
+    return blocks;
+  }
+  if (ext !== ".html" && ext !== ".astro") return blocks;
+  try {
+    const $ = loadCheerio(raw);
+    const scope = $("article").length ? $("article").first() : $("main").length ? $("main").first() : $("body");
+    scope.find('[role="tooltip"]').remove();
+    const BLOCK = "p, li, blockquote, dd, figcaption";
+    scope.find(`h2, ${BLOCK}`).each((_, el) => {
+      if (el.tagName === "h2") {
+        section = $(el).text().replace(/\s+/g, " ").trim();
+        return;
+      }
+      if ($(el).find(BLOCK).length) return; // the nested blocks are visited on their own
+      const text = $(el).text().replace(/\s+/g, " ").trim();
+      if (text) blocks.push({ section, text });
+    });
+  } catch {
+    // Unparseable HTML is reported by other checks
+  }
+  return blocks;
+}
+
+type SentenceStats = { text: string; section: string; words: number; syllables: number; polysyllables: number; letters: number };
+
+function sentenceStats(blocks: Array<{ section: string; text: string }>): SentenceStats[] {
+  const out: SentenceStats[] = [];
+  for (const block of blocks) {
+    for (const sentence of splitSentences(block.text)) {
+      const words = readabilityWords(sentence);
+      if (words.length === 0) continue;
+      let syllables = 0;
+      let polysyllables = 0;
+      for (const w of words) {
+        const n = countSyllables(w);
+        syllables += n;
+        if (n >= 3) polysyllables++;
+      }
+      out.push({ text: sentence, section: block.section, words: words.length, syllables, polysyllables, letters: words.join("").length });
+    }
+  }
+  return out;
+}
+
+/** Readability per H2 section (text before the first H2 is the "" section). */
+function sectionReadability(sentences: SentenceStats[]): SectionReadability[] {
+  const sections: SectionReadability[] = [];
+  const order: string[] = [];
+  const totals = new Map<string, { words: number; sentences: number; syllables: number; polysyllables: number; letters: number }>();
+  for (const s of sentences) {
+    if (!totals.has(s.section)) {
+      order.push(s.section);
+      totals.set(s.section, { words: 0, sentences: 0, syllables: 0, polysyllables: 0, letters: 0 });
+    }
+    const t = totals.get(s.section)!;
+    t.words += s.words;
+    t.sentences++;
+    t.syllables += s.syllables;
+    t.polysyllables += s.polysyllables;
+    t.letters += s.letters;
+  }
+  for (const heading of order) {
+    const t = totals.get(heading)!;
+    const r = readabilityFromCounts(t);
+    sections.push({ heading, wordCount: t.words, fleschReadingEase: r.fleschReadingEase, fleschKincaidGrade: r.fleschKincaidGrade, gunningFog: r.gunningFog });
+  }
+  return sections;
+}
+
+/** The sentences that pull a page's grade up: Flesch-Kincaid grade of each sentence, worst first. */
+function hardestSentences(sentences: SentenceStats[], limit = 5): HardSentence[] {
+  return sentences
+    .filter(s => s.words >= 8)
+    .map(s => ({
+      text: s.text,
+      section: s.section,
+      words: s.words,
+      polysyllables: s.polysyllables,
+      grade: 0.39 * s.words + 11.8 * (s.syllables / s.words) - 15.59,
+    }))
+    .sort((a, b) => b.grade - a.grade)
+    .slice(0, limit);
+}
+
+/**
+ * 1-based line of the source file where `sentence` starts, matching on its first words so
+ * that markdown syntax (links, emphasis, smart quotes) doesn't get in the way.
+ */
+export function locateSentence(source: string, sentence: string): number | null {
+  const target = readabilityWords(sentence).slice(0, 8);
+  if (target.length < 3) return null;
+  const stream: Array<{ word: string; line: number }> = [];
+  source.split(/\r?\n/).forEach((line, i) => {
+    for (const word of readabilityWords(line.replace(/\]\([^)]*\)/g, "]"))) stream.push({ word, line: i + 1 });
+  });
+  for (let i = 0; i + target.length <= stream.length; i++) {
+    if (target.every((w, j) => stream[i + j].word === w)) return stream[i].line;
+  }
+  return null;
+}
+
+function computeReadability(text: string): {
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smogIndex: number;
+  colemanLiau: number;
+  wordCount: number;
+  sentenceCount: number;
+} {
   const sentences = text.split(/[.!?]+\s+/).filter(Boolean);
   // For readability we want raw-ish words, not heavily filtered SEO tokens
-  const words = text
-    .toLowerCase()
-    .replace(/[^a-z\s]/g, " ")
-    .split(/\s+/)
-    .filter(Boolean);
+  const words = readabilityWords(text);
   const wordCount = words.length;
   const sentenceCount = Math.max(1, sentences.length);
-  let syllableCount = 0;
-  for (const w of words) syllableCount += countSyllables(w);
-  const wordsPerSentence = wordCount / sentenceCount;
-  const syllablesPerWord = wordCount ? syllableCount / wordCount : 0;
-  const fleschReadingEase = 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord;
-  const fleschKincaidGrade = 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59;
-  return { fleschReadingEase, fleschKincaidGrade, wordCount, sentenceCount };
+  let syllables = 0;
+  let polysyllables = 0;
+  let letters = 0;
+  for (const w of words) {
+    const n = countSyllables(w);
+    syllables += n;
+    if (n >= 3) polysyllables++;
+    letters += w.length;
+  }
+  return { ...readabilityFromCounts({ words: wordCount, sentences: sentenceCount, syllables, polysyllables, letters }), wordCount, sentenceCount };
 }
 
 function guessRouteHint(filePath: string, rootDir: string): string {
@@ -486,134 +1057,784 @@ async function loadFileText(filePath: string): Promise<string> {
   return raw;
 }
 
-async function analyzeFile(filePath: string, rootDir: string): Promise<DocumentMetrics> {
-  // Read original file content (for frontmatter extraction) and a processed text version
-  const originalRaw = await fs.readFile(filePath, "utf8");
-  const raw = await loadFileText(filePath);
-  const routeHint = guessRouteHint(filePath, rootDir);
-  const ext = path.extname(filePath).toLowerCase();
-  const isHtmlLike = ext === ".astro" || ext === ".html";
-  const title = isHtmlLike ? extractTitleFromHtml(raw) : undefined;
-  const description = isHtmlLike ? extractDescriptionFromHtml(raw) : undefined;
-  const fmMeta = extractFrontmatterMeta(originalRaw, ext);
-  const finalTitle = title ?? fmMeta.title;
-  const finalDescription = description ?? fmMeta.description;
-  let headings = isHtmlLike ? extractHeadingsFromHtml(raw) : extractMdHeadings(raw);
-  // If the source doesn't contain an explicit H1 but the title exists in frontmatter
-  // (or the JSON has a `name`), treat that as the H1. This avoids false positives
-  // for MDX/ASTRO pages that render the H1 via a layout using the frontmatter title.
-  if ((headings.h1.length === 0) && finalTitle) {
-    headings.h1 = [finalTitle];
-  } else if ((headings.h1.length === 0) && ext === ".json") {
-    // Try to parse a `name` field from the JSON file as a fallback H1
-    try {
-      const rawJson = await fs.readFile(filePath, "utf8");
-      const parsed = JSON.parse(rawJson);
-      if (parsed && typeof parsed.name === "string" && parsed.name.trim()) headings.h1 = [parsed.name.trim()];
-    } catch {
-      // ignore parse errors; keep headings empty
-    }
+function extractHeadMetadata(html: string): { canonicalUrls: string[]; robotsMeta?: string; social: SocialMeta; jsonLd: unknown[]; jsonLdErrors: string[] } {
+  const jsonLd: unknown[] = [];
+  const jsonLdErrors: string[] = [];
+  const canonicalUrls: string[] = [];
+  let robotsMeta: string | undefined;
+  const social: SocialMeta = { ogImages: [], twitterImages: [] };
+  try {
+    const $ = loadCheerio(html);
+    $('link[rel="canonical"]').each((_, el) => { const href = $(el).attr("href"); if (href) canonicalUrls.push(href); });
+    const metas = (selector: string) => $(selector).map((_, el) => ($(el).attr("content") || "").trim()).get();
+    robotsMeta = metas('meta[name="robots"], meta[name="googlebot"]').join(", ") || undefined;
+    social.ogImages = metas('meta[property="og:image"]');
+    social.twitterImages = metas('meta[name="twitter:image"]');
+    social.ogUrl = metas('meta[property="og:url"]')[0];
+    social.ogTitle = metas('meta[property="og:title"]')[0];
+    social.ogDescription = metas('meta[property="og:description"]')[0];
+    social.twitterCard = metas('meta[name="twitter:card"]')[0];
+    $('script[type="application/ld+json"]').each((i, el) => {
+      const body = $(el).text().trim();
+      if (!body) {
+        jsonLdErrors.push(`JSON-LD block ${i + 1} is empty`);
+        return;
+      }
+      try {
+        jsonLd.push(JSON.parse(body));
+      } catch (err) {
+        jsonLdErrors.push(`JSON-LD block ${i + 1} does not parse: ${err instanceof Error ? err.message : err}`);
+      }
+    });
+  } catch {
+    // Unparseable HTML is reported by other checks
   }
-  const links = extractLinks(raw);
-  const imagesWithoutAlt = countImagesWithoutAlt(raw);
-
-  const text = isHtmlLike ? textFromHtml(raw) : raw
-    .replace(/^\s*#+\s+/gm, " ")
-    .replace(/\[[^\]]*\]\(([^)]+)\)/g, " ")
-    .replace(/!\[[^\]]*\]\(([^)]+)\)/g, " ")
-    .replace(/\{[\s\S]*?\}/g, " ")
-    .replace(/<[^>]+>/g, " ");
-
-  const { fleschReadingEase, fleschKincaidGrade, wordCount, sentenceCount } = computeReadability(text);
-  const tokens = toWords(text);
-  const bigrams = buildNgrams(tokens, 2);
-  const trigrams = buildNgrams(tokens, 3);
-  // Weighted terms for TF-IDF emphasizing title/description/headings
-  const tfidfTerms: string[] = [];
-  const pushWeighted = (s: string | undefined, weight: number) => {
-    if (!s) return;
-    const ws = toWords(s);
-    for (let i = 0; i < weight; i++) tfidfTerms.push(...ws);
-  };
-  pushWeighted(finalTitle, 5);
-  pushWeighted(finalDescription, 4);
-  for (const h of headings.h1) pushWeighted(h, 4);
-  for (const h of headings.h2) pushWeighted(h, 3);
-  for (const h of headings.h3) pushWeighted(h, 2);
-  tfidfTerms.push(...tokens);
-
-  // Filter TF-IDF candidate terms to remove noise
-  const filteredTfidf = filterTerms(tfidfTerms);
+  return { canonicalUrls, robotsMeta, social, jsonLd, jsonLdErrors };
+}
 
-  const warnings: string[] = [];
-  if (!finalTitle) warnings.push("Missing <title>");
-  if (!finalDescription) warnings.push("Missing meta description");
-  if (headings.h1.length === 0) warnings.push("Missing H1 heading");
-  if (finalDescription && (finalDescription.length < 50 || finalDescription.length > 160)) warnings.push(`Description length ${finalDescription.length} (recommended 50-160)`);
-  if (finalTitle && (finalTitle.length < 15 || finalTitle.length > 65)) warnings.push(`Title length ${finalTitle.length} (recommended 15-65)`);
+// Link text that says nothing about the destination out of context (WCAG 2.4.4)
+const VAGUE_LINK_TEXT = new Set([
+  "here", "click here", "click", "read more", "more", "learn more", "see more", "this", "this link",
+  "link", "continue", "continue reading", "details", "more info", "info", "go", "this page",
+]);
 
-  return {
-    filePath,
-    routeHint,
-    title: finalTitle,
-    description: finalDescription,
-    headings,
-    wordCount,
-    sentenceCount,
-    fleschReadingEase,
-    fleschKincaidGrade,
-    internalLinks: links.internal,
-    externalLinks: links.external,
-    imagesWithoutAlt,
-    warnings,
-    tokens,
-    bigrams,
-    trigrams,
-  tfidfTerms: filteredTfidf,
-  };
+function isVagueLinkText(text: string): boolean {
+  return VAGUE_LINK_TEXT.has(text.toLowerCase().replace(/[^a-z ]/g, " ").replace(/\s+/g, " ").trim());
 }
 
-function extractMdHeadings(md: string): { h1: string[]; h2: string[]; h3: string[] } {
-  const h1: string[] = [];
-  const h2: string[] = [];
-  const h3: string[] = [];
-  const lines = md.split(/\r?\n/);
-  for (const line of lines) {
-    const m1 = /^\s*#\s+(.+)$/.exec(line);
-    if (m1) { h1.push(m1[1].trim()); continue; }
-    const m2 = /^\s*##\s+(.+)$/.exec(line);
-    if (m2) { h2.push(m2[1].trim()); continue; }
-    const m3 = /^\s*###\s+(.+)$/.exec(line);
-    if (m3) { h3.push(m3[1].trim()); continue; }
-  }
-  return { h1, h2, h3 };
+/** Short, single-line rendering of an element for findings, e.g. `<button class="chip">`. */
+function describeElement(tag: string, attrs: Record<string, string>): string {
+  const keep = ["id", "class", "data-year", "data-tag", "data-view", "type", "href"].filter(a => attrs[a] !== undefined);
+  return `<${tag}${keep.map(a => ` ${a}="${attrs[a].slice(0, 40)}"`).join("")}>`;
 }
 
-// Normalize tokens: lowercase, strip punctuation, stem
-export function normalizeTerm(t: string): string {
-  const s = t.toLowerCase().replace(/[^a-z0-9\s]/g, "").trim();
-  if (!s) return "";
-  // Avoid stemming numbers and short tokens
-  if (/^\d+$/.test(s) || s.length <= 2) return s;
+/**
+ * Facts for the accessibility rules. Markdown sources only yield headings and links; .astro
+ * sources are parsed as HTML, with `{expressions}` treated as present names and ids.
+ */
+function extractAccessibility(raw: string, ext: string): A11yFacts {
+  const facts: A11yFacts = { headingOutline: [], vagueLinks: [], unnamedButtons: [], brokenLabelledBy: [], imagesMissingAlt: 0 };
+  if (ext === ".md" || ext === ".mdx") {
+    for (const line of raw.split(/\r?\n/)) {
+      const m = /^\s*(#{1,6})\s+(.+)$/.exec(line);
+      if (m) facts.headingOutline.push({ level: m[1].length, text: m[2].trim() });
+    }
+    const linkRe = /(?<!!)\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g;
+    let m: RegExpExecArray | null;
+    while ((m = linkRe.exec(raw)) !== null) {
+      if (!m[1].trim() || isVagueLinkText(m[1])) facts.vagueLinks.push({ text: m[1].trim(), href: m[2] });
+    }
+    // Markdown can't express alt="" on purpose, so an empty ![]() counts as missing
+    facts.imagesMissingAlt = (raw.match(/!\[\s*\]\(/g) ?? []).length;
+    return facts;
+  }
+  if (ext !== ".html" && ext !== ".astro") return facts;
   try {
-    return stemmer(s);
+    const $ = loadCheerio(raw);
+    if (ext === ".html") facts.lang = ($("html").attr("lang") || "").trim() || undefined;
+    $("h1, h2, h3, h4, h5, h6").each((_, el) => {
+      facts.headingOutline.push({ level: Number(el.tagName.slice(1)), text: $(el).text().replace(/\s+/g, " ").trim() });
+    });
+    const idCounts = new Map<string, number>();
+    $("[id]").each((_, el) => { const id = $(el).attr("id")!; idCounts.set(id, (idCounts.get(id) ?? 0) + 1); });
+    facts.imagesMissingAlt = $("img:not([alt])").length;
+    // Accessible name per the common cases of accname: aria-label, aria-labelledby, content, alt, title
+    const nameOf = (el: Element): string => {
+      const $el = $(el);
+      const label = ($el.attr("aria-label") || "").trim();
+      if (label) return label;
+      const labelledBy = ($el.attr("aria-labelledby") || "").split(/\s+/).filter(Boolean);
+      const fromIds = labelledBy.map(id => $(`[id="${id}"]`).text().trim()).join(" ").trim();
+      if (fromIds) return fromIds;
+      const $content = $el.clone();
+      $content.find('[aria-hidden="true"]').remove();
+      const text = [$content.text(), ...$content.find("img[alt]").map((_, img) => $(img).attr("alt")).get(), $content.find("svg title").text()]
+        .join(" ").replace(/\s+/g, " ").trim();
+      if (text) return text;
+      return ($el.attr("title") || $el.attr("value") || "").trim();
+    };
+    $("a[href]").each((_, el) => {
+      const name = nameOf(el);
+      if (!name || isVagueLinkText(name)) facts.vagueLinks.push({ text: name, href: $(el).attr("href")! });
+    });
+    $('button, [role="button"], input[type="button"], input[type="submit"], input[type="reset"]').each((_, el) => {
+      // Submit/reset inputs get a default name from the browser
+      if (el.tagName === "input" && !$(el).attr("value") && $(el).attr("type") !== "button") return;
+      if (!nameOf(el)) facts.unnamedButtons.push(describeElement(el.tagName, el.attribs));
+    });
+    $("[aria-labelledby]").each((_, el) => {
+      const refs = ($(el).attr("aria-labelledby") || "").split(/\s+/).filter(id => id && !id.includes("{"));
+      const missing = refs.filter(id => !idCounts.has(id));
+      const duplicated = refs.filter(id => (idCounts.get(id) ?? 0) > 1);
+      if (missing.length || duplicated.length) {
+        facts.brokenLabelledBy.push({ element: describeElement(el.tagName, el.attribs), missing, duplicated });
+      }
+    });
   } catch {
-    return s;
+    // Unparseable HTML is reported by other checks
+  }
+  return facts;
+}
+
+function skippedHeadingLevels(doc: DocumentMetrics): string[] {
+  const out: string[] = [];
+  const outline = doc.a11y.headingOutline;
+  for (let i = 1; i < outline.length; i++) {
+    const prev = outline[i - 1];
+    const cur = outline[i];
+    if (cur.level > prev.level + 1) {
+      out.push(`Heading level skipped: H${prev.level} "${prev.text.slice(0, 60)}" is followed by H${cur.level} "${cur.text.slice(0, 60)}"`);
+    }
   }
+  return out;
 }
 
 /**
- * Improved TF-IDF: uses sublinear TF (1 + log(tf)), smoothed IDF, stemming/normalization,
- * and a minDocFreq threshold to exclude extremely rare terms that are usually noise.
+ * Per schema.org type: required and recommended properties. "a|b" means either satisfies it.
+ * Loosely follows Google's rich result requirements for the types this site emits.
  */
-export function computeTfidfEnhanced(allDocs: { id: string; terms: string[] }[], topK = 25, opts?: { minDocFreq?: number }) {
-  const minDocFreq = opts?.minDocFreq ?? 2;
-  const docCount = allDocs.length;
-  const termDocFreq = new Map<string, number>();
-  // Build a canonical surface-form map: normalized -> { surface -> count }
-  const surfaceMap = new Map<string, Map<string, number>>();
-  // Document frequency (on normalized terms)
-  for (const d of allDocs) {
+const JSONLD_SCHEMAS: Record<string, { required: string[]; recommended: string[] }> = {
+  Article: { required: ["headline", "datePublished", "author", "image"], recommended: ["dateModified", "description", "publisher", "mainEntityOfPage", "keywords"] },
+  BlogPosting: { required: ["headline", "datePublished", "author", "image"], recommended: ["dateModified", "description", "publisher", "mainEntityOfPage", "keywords"] },
+  CreativeWork: { required: ["headline|name", "author"], recommended: ["description", "image", "datePublished"] },
+  CollectionPage: { required: ["name"], recommended: ["mainEntity", "description"] },
+  BreadcrumbList: { required: ["itemListElement"], recommended: [] },
+  ItemList: { required: ["itemListElement"], recommended: [] },
+  Person: { required: ["name"], recommended: [] },
+  Organization: { required: ["name"], recommended: ["url|logo"] },
+  WebSite: { required: ["name", "url"], recommended: [] },
+  ImageObject: { required: ["url"], recommended: [] },
+};
+
+const JSONLD_DATE_PROPS = ["datePublished", "dateModified", "dateCreated", "uploadDate"];
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isBlankJsonLdValue(v: unknown): boolean {
+  if (v === undefined || v === null) return true;
+  if (typeof v === "string") return !v.trim() || ["undefined", "null", "nan"].includes(v.trim().toLowerCase());
+  if (Array.isArray(v)) return v.length === 0;
+  return false;
+}
+
+function jsonLdTypes(node: Record<string, unknown>): string[] {
+  const t = node["@type"];
+  return (Array.isArray(t) ? t : [t]).filter((x): x is string => typeof x === "string");
+}
+
+/** Every object carrying an @type, including nested ones (publisher, mainEntity, @graph...). */
+function collectJsonLdNodes(value: unknown, out: Array<Record<string, unknown>> = []): Array<Record<string, unknown>> {
+  if (Array.isArray(value)) {
+    for (const v of value) collectJsonLdNodes(v, out);
+  } else if (value && typeof value === "object") {
+    const node = value as Record<string, unknown>;
+    if (node["@type"]) out.push(node);
+    for (const v of Object.values(node)) collectJsonLdNodes(v, out);
+  }
+  return out;
+}
+
+export function lintJsonLd(blocks: unknown[]): { required: string[]; recommended: string[]; dates: string[]; positions: string[]; images: string[] } {
+  const result = { required: [] as string[], recommended: [] as string[], dates: [] as string[], positions: [] as string[], images: [] as string[] };
+  for (const block of blocks) {
+    const roots = Array.isArray(block) ? block : [block];
+    for (const root of roots) {
+      if (root && typeof root === "object" && !Array.isArray(root) && !(root as Record<string, unknown>)["@context"]) {
+        result.required.push(`${jsonLdTypes(root as Record<string, unknown>).join("/") || "JSON-LD block"} is missing @context`);
+      }
+    }
+    for (const node of collectJsonLdNodes(block)) {
+      const label = jsonLdTypes(node).join("/") || "node";
+      for (const type of jsonLdTypes(node)) {
+        const schema = JSONLD_SCHEMAS[type];
+        if (!schema) continue;
+        const has = (prop: string) => prop.split("|").some(p => !isBlankJsonLdValue(node[p]));
+        for (const prop of schema.required) if (!has(prop)) result.required.push(`${type}: missing required "${prop.replace("|", '" or "')}"`);
+        for (const prop of schema.recommended) if (!has(prop)) result.recommended.push(`${type}: missing recommended "${prop.replace("|", '" or "')}"`);
+      }
+      for (const prop of JSONLD_DATE_PROPS) {
+        const v = node[prop];
+        if (v === undefined) continue;
+        if (typeof v !== "string" || !ISO_DATE_RE.test(v) || Number.isNaN(Date.parse(v))) {
+          result.dates.push(`${label}: ${prop} ${JSON.stringify(v)} is not an ISO 8601 date`);
+        }
+      }
+      if (Array.isArray(node.itemListElement)) {
+        const items = node.itemListElement as Array<Record<string, unknown>>;
+        items.forEach((item, i) => {
+          if (item?.position !== i + 1) result.positions.push(`${label}: item ${i + 1} has position ${JSON.stringify(item?.position)} (expected ${i + 1})`);
+          if (jsonLdTypes(node).includes("BreadcrumbList")) {
+            if (isBlankJsonLdValue(item?.name)) result.positions.push(`${label}: item ${i + 1} is missing "name"`);
+            // Google allows the last crumb (the current page) to omit "item"
+            if (i < items.length - 1 && isBlankJsonLdValue(item?.item)) result.positions.push(`${label}: item ${i + 1} is missing "item"`);
+          }
+        });
+      }
+      for (const prop of ["image", "logo", "thumbnailUrl"]) {
+        const v = node[prop];
+        for (const img of Array.isArray(v) ? v : [v]) {
+          if (typeof img === "string" && img.trim()) result.images.push(img.trim());
+          // ImageObject values are visited as nodes themselves; take their url here too
+          else if (img && typeof img === "object" && typeof (img as Record<string, unknown>).url === "string") {
+            result.images.push((img as Record<string, string>).url);
+          }
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Map a URL found on a page to a path in the build. Relative URLs and URLs on the page's
+ * canonical host resolve; other hosts give null; unparseable URLs give undefined.
+ */
+function sitePathFor(url: string, doc: DocumentMetrics, rootDir: string): string | null | undefined {
+  const pageRoute = routeKeysForFile(path.relative(rootDir, doc.filePath))[0];
+  let siteHost: string | undefined;
+  try {
+    if (doc.canonicalUrls[0]) siteHost = new URL(doc.canonicalUrls[0]).host;
+  } catch {
+    // Malformed canonical: only relative URLs can be checked
+  }
+  try {
+    const u = new URL(url, "http://example.com" + pageRoute);
+    if (u.host !== "example.com" && u.host !== siteHost) return null;
+    return decodeURIComponent(u.pathname);
+  } catch {
+    return undefined;
+  }
+}
+
+/** JSON-LD image URLs on this site's host (or relative) must exist in the build output. */
+function missingJsonLdImages(doc: DocumentMetrics, ctx: CorpusContext): string[] {
+  if (doc.jsonLd.length === 0) return [];
+  const missing: string[] = [];
+  for (const url of new Set(lintJsonLd(doc.jsonLd).images)) {
+    const pathname = sitePathFor(url, doc, ctx.rootDir);
+    if (pathname === null) continue;
+    if (pathname === undefined) missing.push(`JSON-LD image ${url} is not a valid URL`);
+    else if (!ctx.routes.has(pathname)) missing.push(`JSON-LD image ${url} is not in the build output`);
+  }
+  return missing;
+}
+
+const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+/** Sniff the format (and PNG/GIF dimensions) from the first bytes of an image file. */
+export function readImageInfo(head: Buffer): ImageInfo {
+  if (head.length >= 24 && head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    // IHDR is always the first chunk: width and height are big-endian at 16 and 20
+    return { format: "png", width: head.readUInt32BE(16), height: head.readUInt32BE(20) };
+  }
+  if (head.length >= 10 && head.subarray(0, 3).toString("latin1") === "GIF") {
+    return { format: "gif", width: head.readUInt16LE(6), height: head.readUInt16LE(8) };
+  }
+  if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return { format: "jpeg" };
+  if (head.length >= 12 && head.subarray(0, 4).toString("latin1") === "RIFF" && head.subarray(8, 12).toString("latin1") === "WEBP") return { format: "webp" };
+  if (/^\s*(<\?xml[^>]*>\s*)?<svg/i.test(head.toString("utf8"))) return { format: "svg" };
+  return { format: "unknown" };
+}
+
+async function probeImage(file: string): Promise<ImageInfo | null> {
+  let handle: Awaited<ReturnType<typeof fs.open>> | undefined;
+  try {
+    handle = await fs.open(file, "r");
+    const buf = Buffer.alloc(64);
+    const { bytesRead } = await handle.read(buf, 0, buf.length, 0);
+    return readImageInfo(buf.subarray(0, bytesRead));
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/** The image a given card will actually use: twitter:image falls back to og:image. */
+function socialImageUrls(doc: DocumentMetrics): string[] {
+  return Array.from(new Set([...doc.social.ogImages, ...doc.social.twitterImages]));
+}
+
+function isAbsoluteUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+function checkOgImageTags(doc: DocumentMetrics): Finding[] {
+  if (path.extname(doc.filePath).toLowerCase() !== ".html") return [];
+  const { ogImages } = doc.social;
+  const out: Finding[] = [];
+  if (ogImages.length === 0) out.push("Missing og:image");
+  if (ogImages.length > 1) out.push({ message: `${ogImages.length} og:image tags (${ogImages.join(", ")}); crawlers pick one unpredictably`, subject: "og:image tags" });
+  for (const url of socialImageUrls(doc)) {
+    if (!isAbsoluteUrl(url)) out.push(`Social image ${url} is not an absolute URL`);
+  }
+  return out;
+}
+
+function checkOgImageFiles(doc: DocumentMetrics, ctx: CorpusContext): Finding[] {
+  const out: Finding[] = [];
+  for (const url of socialImageUrls(doc)) {
+    const pathname = sitePathFor(url, doc, ctx.rootDir);
+    if (pathname === null) continue;
+    const file = pathname === undefined ? undefined : ctx.routes.get(pathname);
+    if (!file) { out.push(`Social image ${url} is not in the build output`); continue; }
+    const info = ctx.images.get(file);
+    if (!info) continue;
+    if (info.format !== "png") out.push(`Social image ${url} is ${info.format}, expected png`);
+    else if (info.width !== OG_IMAGE_SIZE.width || info.height !== OG_IMAGE_SIZE.height) {
+      out.push({ message: `Social image ${url} is ${info.width}×${info.height}, expected ${OG_IMAGE_SIZE.width}×${OG_IMAGE_SIZE.height}`, subject: url });
+    }
+  }
+  return out;
+}
+
+function checkOgUrl(doc: DocumentMetrics): Finding[] {
+  if (path.extname(doc.filePath).toLowerCase() !== ".html") return [];
+  const { ogUrl } = doc.social;
+  const canonicals = Array.from(new Set(doc.canonicalUrls));
+  const out: Finding[] = [];
+  if (canonicals.length > 1) out.push({ message: `${canonicals.length} different canonical links (${canonicals.join(", ")})`, subject: "canonical links" });
+  if (!ogUrl) out.push("Missing og:url");
+  else if (canonicals.length && !canonicals.includes(ogUrl)) out.push(`og:url ${ogUrl} does not match canonical ${canonicals[0]}`);
+  return out;
+}
+
+function checkTwitterCard(doc: DocumentMetrics, ctx: CorpusContext): Finding[] {
+  if (path.extname(doc.filePath).toLowerCase() !== ".html") return [];
+  const card = doc.social.twitterCard;
+  if (!card) return ["Missing twitter:card"];
+  if (!["summary", "summary_large_image", "app", "player"].includes(card)) return [`Unknown twitter:card "${card}"`];
+  const url = doc.social.twitterImages[0] ?? doc.social.ogImages[0];
+  const pathname = url ? sitePathFor(url, doc, ctx.rootDir) : undefined;
+  const file = pathname ? ctx.routes.get(pathname) : undefined;
+  const info = file ? ctx.images.get(file) : undefined;
+  if (!info?.width || !info.height) return [];
+  const ratio = info.width / info.height;
+  // X/Twitter crops large cards to 2:1 (min 300×157) and summary cards to 1:1 (min 144×144)
+  if (card === "summary_large_image" && (ratio < 1.5 || info.width < 300 || info.height < 157)) {
+    return [{ message: `twitter:card summary_large_image with a ${info.width}×${info.height} image; use a ~2:1 image or "summary"`, subject: "" }];
+  }
+  if (card === "summary" && (ratio < 0.9 || ratio > 1.1 || info.width < 144)) {
+    return [{ message: `twitter:card summary with a ${info.width}×${info.height} image; use a square image or "summary_large_image"`, subject: "" }];
+  }
+  return [];
+}
+
+type CorpusContext = {
+  rootDir: string;
+  /** URL path -> file, as produced by buildRouteIndex() */
+  routes: Map<string, string>;
+  /** Header info for every social image referenced by the audited pages */
+  images: Map<string, ImageInfo | null>;
+  pageWeights: Map<string, PageWeight>;
+  budgetsKb: Partial<Record<AssetKind | "total", number>>;
+};
+
+/** A check the audit runs. Built-ins live in RULES; callers add their own via AuditOptions.checks. */
+export type RuleDefinition = {
+  /** One-line summary, used for SARIF rule metadata */
+  description: string;
+  defaults: ResolvedRule;
+  check?: (doc: DocumentMetrics, rule: ResolvedRule) => Finding[];
+  /** For rules that need the whole build (e.g. which files exist); runs after every file is analyzed. */
+  checkCorpus?: (doc: DocumentMetrics, rule: ResolvedRule, ctx: CorpusContext) => Finding[];
+};
+
+const RULES: Record<string, RuleDefinition> = {
+  "title-missing": {
+    description: "Page has no <title> (or frontmatter title)",
+    defaults: { severity: "error" },
+    check: d => (d.title ? [] : ["Missing <title>"]),
+  },
+  "description-missing": {
+    description: "Page has no meta description (or frontmatter summary/description)",
+    defaults: { severity: "warn" },
+    check: d => (d.description ? [] : ["Missing meta description"]),
+  },
+  "h1-missing": {
+    description: "Page has no H1",
+    defaults: { severity: "warn" },
+    check: d => (d.headings.h1.length === 0 ? ["Missing H1 heading"] : []),
+  },
+  "title-length": {
+    description: "Title length outside the configured range",
+    defaults: { severity: "warn", min: 15, max: 65 },
+    check: (d, r) => lengthOutOfRange("Title", d.title, r),
+  },
+  "description-length": {
+    description: "Meta description length outside the configured range",
+    defaults: { severity: "warn", min: 50, max: 160 },
+    check: (d, r) => lengthOutOfRange("Description", d.description, r),
+  },
+  "jsonld-invalid": {
+    description: "JSON-LD block is empty or does not parse",
+    defaults: { severity: "error" },
+    check: d => d.jsonLdErrors,
+  },
+  "jsonld-required": {
+    description: "JSON-LD node is missing a property its schema.org type requires",
+    defaults: { severity: "error" },
+    check: d => lintJsonLd(d.jsonLd).required,
+  },
+  "jsonld-recommended": {
+    description: "JSON-LD node is missing a recommended property",
+    defaults: { severity: "warn" },
+    check: d => lintJsonLd(d.jsonLd).recommended,
+  },
+  "jsonld-date": {
+    description: "JSON-LD date is not ISO 8601",
+    defaults: { severity: "error" },
+    check: d => lintJsonLd(d.jsonLd).dates,
+  },
+  "jsonld-breadcrumb": {
+    description: "BreadcrumbList/ItemList positions or items are malformed",
+    defaults: { severity: "error" },
+    check: d => lintJsonLd(d.jsonLd).positions,
+  },
+  "jsonld-image": {
+    description: "JSON-LD image URL is not in the build output",
+    defaults: { severity: "error" },
+    checkCorpus: (d, _r, ctx) => missingJsonLdImages(d, ctx),
+  },
+  "og-image": {
+    description: "og:image is missing, repeated or not absolute",
+    defaults: { severity: "warn" },
+    check: d => checkOgImageTags(d),
+  },
+  "og-image-file": {
+    description: "Social image is missing from the build or not a 1200×630 PNG",
+    defaults: { severity: "error" },
+    checkCorpus: (d, _r, ctx) => checkOgImageFiles(d, ctx),
+  },
+  "og-url": {
+    description: "og:url is missing or disagrees with the canonical link",
+    defaults: { severity: "warn" },
+    check: d => checkOgUrl(d),
+  },
+  "og-title": {
+    description: "og:title missing or outside the configured length",
+    defaults: { severity: "warn", min: 15, max: 90 },
+    check: (d, r) => path.extname(d.filePath).toLowerCase() !== ".html" ? [] : d.social.ogTitle ? lengthOutOfRange("og:title", d.social.ogTitle, r) : ["Missing og:title"],
+  },
+  "og-description": {
+    description: "og:description missing or outside the configured length",
+    defaults: { severity: "warn", min: 50, max: 200 },
+    check: (d, r) => path.extname(d.filePath).toLowerCase() !== ".html" ? [] : d.social.ogDescription ? lengthOutOfRange("og:description", d.social.ogDescription, r) : ["Missing og:description"],
+  },
+  "readability-sentence": {
+    description: "Sentence reads above the configured grade level",
+    defaults: { severity: "info", max: 16 },
+    // Corpus phase: built pages only learn their sentences' source lines once generateReport
+    // has read the entries they were built from
+    checkCorpus: (d, r) => d.hardSentences
+      .filter(s => r.max === undefined || s.grade > r.max)
+      .map(s => ({
+        message: `${s.line ? `Line ${s.line}: ` : ""}${s.words}-word sentence at grade ${s.grade.toFixed(1)}${s.section ? ` in "${s.section}"` : ""}: "${s.text.length > 100 ? s.text.slice(0, 100) + "…" : s.text}"`,
+        subject: s.text,
+      })),
+  },
+  "perf-budget": {
+    description: "Page weight (total or per asset kind) exceeds the configured budget",
+    defaults: { severity: "warn" },
+    checkCorpus: (d, _r, ctx) => checkBudgets(d, ctx),
+  },
+  "perf-render-blocking": {
+    description: "Stylesheet or classic script in <head> blocks first render",
+    defaults: { severity: "info" },
+    check: d => d.resources.renderBlocking.map(url => `Render-blocking ${assetKind(url) === "css" ? "stylesheet" : "script"} in <head>: ${url}`),
+  },
+  "a11y-heading-order": {
+    description: "Heading levels skip a step (e.g. H1 followed by H3)",
+    defaults: { severity: "warn" },
+    check: d => skippedHeadingLevels(d),
+  },
+  "a11y-multiple-h1": {
+    description: "Page has more than one H1",
+    defaults: { severity: "warn" },
+    check: d => {
+      const h1s = d.a11y.headingOutline.filter(h => h.level === 1);
+      return h1s.length > 1 ? [{ message: `${h1s.length} H1 headings: ${h1s.map(h => `"${h.text.slice(0, 60)}"`).join(", ")}`, subject: "" }] : [];
+    },
+  },
+  "a11y-link-text": {
+    description: "Link text is empty or vague out of context (\"here\", \"read more\")",
+    defaults: { severity: "warn" },
+    check: d => d.a11y.vagueLinks.map(l => (l.text ? `Vague link text "${l.text}" → ${l.href}` : `Link without accessible name → ${l.href}`)),
+  },
+  "a11y-html-lang": {
+    description: "<html> has no lang attribute",
+    defaults: { severity: "error" },
+    check: d => (path.extname(d.filePath).toLowerCase() === ".html" && !d.a11y.lang ? ["Missing lang attribute on <html>"] : []),
+  },
+  "a11y-button-name": {
+    description: "Button has no accessible name",
+    defaults: { severity: "error" },
+    check: d => d.a11y.unnamedButtons.map(b => `Button without accessible name: ${b}`),
+  },
+  "a11y-aria-labelledby": {
+    description: "aria-labelledby references ids that are missing or not unique on the page",
+    defaults: { severity: "error" },
+    check: d => d.a11y.brokenLabelledBy.flatMap(b => [
+      ...(b.missing.length ? [`${b.element} aria-labelledby references missing id(s): ${b.missing.join(", ")}`] : []),
+      ...(b.duplicated.length ? [`${b.element} aria-labelledby references id(s) used more than once: ${b.duplicated.join(", ")}`] : []),
+    ]),
+  },
+  "a11y-img-alt": {
+    description: "Image has no alt attribute",
+    defaults: { severity: "warn" },
+    check: d => (d.a11y.imagesMissingAlt ? [{ message: `${d.a11y.imagesMissingAlt} image(s) without an alt attribute`, subject: "" }] : []),
+  },
+  "target-keyword": {
+    description: "Page under-serves a keyword declared in its targetKeywords frontmatter",
+    defaults: { severity: "warn", max: 3 },
+    checkCorpus: (d, r, ctx) => checkKeywordTargets(d, r, ctx),
+  },
+  "twitter-card": {
+    description: "twitter:card is missing or does not fit the image shape",
+    defaults: { severity: "warn" },
+    checkCorpus: (d, _r, ctx) => checkTwitterCard(d, ctx),
+  },
+};
+
+function lengthOutOfRange(label: string, value: string | undefined, rule: ResolvedRule): Finding[] {
+  if (!value) return [];
+  const min = rule.min ?? 0;
+  const max = rule.max ?? Infinity;
+  if (value.length >= min && value.length <= max) return [];
+  return [{ message: `${label} length ${value.length} (recommended ${min}-${max})`, subject: "" }];
+}
+
+function mergeRuleSetting(base: ResolvedRule, setting: RuleSetting | undefined): ResolvedRule {
+  if (setting === undefined) return base;
+  if (typeof setting === "string") return { ...base, severity: setting };
+  return { ...base, ...setting };
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (glob[i + 2] === "/") { re += "(?:.*/)?"; i += 2; } else { re += ".*"; i++; }
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Resolve the effective rule table for one file: built-in defaults, then config.rules,
+ * then every matching override in order. Returns null when the file is ignored.
+ */
+export function resolveRules(
+  config: SeoAuditConfig,
+  relPath: string,
+  route: string,
+  definitions: Record<string, RuleDefinition> = RULES,
+): Record<string, ResolvedRule> | null {
+  const rules: Record<string, ResolvedRule> = {};
+  for (const [id, def] of Object.entries(definitions)) rules[id] = mergeRuleSetting(def.defaults, config.rules?.[id]);
+  // Routes are matched without their trailing slash so "/tags/*" covers "/tags/AI/"
+  const routeKey = route.length > 1 ? route.replace(/\/+$/, "") : route;
+  for (const o of config.overrides ?? []) {
+    const patterns = Array.isArray(o.files) ? o.files : [o.files];
+    const matches = patterns.some(p => globToRegExp(p).test(p.startsWith("/") ? routeKey : relPath));
+    if (!matches) continue;
+    if (o.ignore) return null;
+    for (const [id, setting] of Object.entries(o.rules ?? {})) {
+      if (rules[id]) rules[id] = mergeRuleSetting(rules[id], setting);
+    }
+  }
+  return rules;
+}
+
+/** Rule IDs that config.rules or an override configures but no built-in or custom check defines. */
+export function unknownRuleIds(config: SeoAuditConfig, definitions: Record<string, RuleDefinition> = RULES): string[] {
+  const configured = [config.rules, ...(config.overrides ?? []).map(o => o.rules)].flatMap(rules => Object.keys(rules ?? {}));
+  return Array.from(new Set(configured.filter(id => !(id in definitions)))).sort();
+}
+
+function evaluateRules(
+  doc: DocumentMetrics,
+  rules: Record<string, ResolvedRule> | null,
+  definitions: Record<string, RuleDefinition>,
+  ctx?: CorpusContext,
+): Warning[] {
+  if (!rules) return [];
+  const warnings: Warning[] = [];
+  for (const [ruleId, rule] of Object.entries(rules)) {
+    const { severity } = rule;
+    if (severity === "off") continue;
+    const { check, checkCorpus } = definitions[ruleId];
+    const findings = ctx ? checkCorpus?.(doc, rule, ctx) : check?.(doc, rule);
+    for (const f of findings ?? []) warnings.push(typeof f === "string" ? { ruleId, severity, message: f } : { ruleId, severity, ...f });
+  }
+  return warnings;
+}
+
+function rulesForDocument(doc: DocumentMetrics, rootDir: string, config: SeoAuditConfig, definitions: Record<string, RuleDefinition>) {
+  const relPath = path.relative(rootDir, doc.filePath).replace(/\\/g, "/");
+  const route = path.extname(doc.filePath).toLowerCase() === ".html" ? routeKeysForFile(relPath)[0] : doc.routeHint;
+  return resolveRules(config, relPath, route, definitions);
+}
+
+async function loadConfig(configFile: string, required: boolean): Promise<SeoAuditConfig> {
+  try {
+    await fs.access(configFile);
+  } catch {
+    if (required) throw new Error(`Config file not found: ${configFile}`);
+    return {};
+  }
+  const mod = await import(pathToFileURL(configFile).href);
+  return (mod.default ?? {}) as SeoAuditConfig;
+}
+
+async function analyzeFile(
+  filePath: string,
+  rootDir: string,
+  config: SeoAuditConfig = {},
+  definitions: Record<string, RuleDefinition> = RULES,
+): Promise<DocumentMetrics> {
+  // Read original file content (for frontmatter extraction) and a processed text version
+  const originalRaw = await fs.readFile(filePath, "utf8");
+  const raw = await loadFileText(filePath);
+  const routeHint = guessRouteHint(filePath, rootDir);
+  const ext = path.extname(filePath).toLowerCase();
+  const isHtmlLike = ext === ".astro" || ext === ".html";
+  const title = isHtmlLike ? extractTitleFromHtml(raw) : undefined;
+  const description = isHtmlLike ? extractDescriptionFromHtml(raw) : undefined;
+  const fmMeta = extractFrontmatterMeta(originalRaw, ext);
+  const finalTitle = title ?? fmMeta.title;
+  const finalDescription = description ?? fmMeta.description;
+  let headings = isHtmlLike ? extractHeadingsFromHtml(raw) : extractMdHeadings(raw);
+  // If the source doesn't contain an explicit H1 but the title exists in frontmatter
+  // (or the JSON has a `name`), treat that as the H1. This avoids false positives
+  // for MDX/ASTRO pages that render the H1 via a layout using the frontmatter title.
+  if ((headings.h1.length === 0) && finalTitle) {
+    headings.h1 = [finalTitle];
+  } else if ((headings.h1.length === 0) && ext === ".json") {
+    // Try to parse a `name` field from the JSON file as a fallback H1
+    try {
+      const rawJson = await fs.readFile(filePath, "utf8");
+      const parsed = JSON.parse(rawJson);
+      if (parsed && typeof parsed.name === "string" && parsed.name.trim()) headings.h1 = [parsed.name.trim()];
+    } catch {
+      // ignore parse errors; keep headings empty
+    }
+  }
+  const links = extractLinks(raw, ext !== ".html");
+  const anchorIds = isHtmlLike ? extractAnchorIds(raw) : [];
+  // Only built HTML carries real JSON-LD; .astro sources hold unevaluated expressions
+  const head = ext === ".html" ? extractHeadMetadata(raw) : { canonicalUrls: [], social: { ogImages: [], twitterImages: [] }, jsonLd: [], jsonLdErrors: [] };
+  const imagesWithoutAlt = countImagesWithoutAlt(raw);
+
+  const text = isHtmlLike ? textFromHtml(raw) : raw
+    .replace(/^\s*#+\s+/gm, " ")
+    .replace(/\[[^\]]*\]\(([^)]+)\)/g, " ")
+    .replace(/!\[[^\]]*\]\(([^)]+)\)/g, " ")
+    .replace(/\{[\s\S]*?\}/g, " ")
+    .replace(/<[^>]+>/g, " ");
+
+  const { fleschReadingEase, fleschKincaidGrade, gunningFog, smogIndex, colemanLiau, wordCount, sentenceCount } = computeReadability(text);
+  const sentences = sentenceStats(proseBlocks(raw, ext));
+  const hardSentences = hardestSentences(sentences);
+  if (ext === ".md" || ext === ".mdx") {
+    for (const s of hardSentences) {
+      s.source = path.relative(process.cwd(), filePath);
+      s.line = locateSentence(originalRaw, s.text) ?? undefined;
+    }
+  }
+  const tokens = toWords(text);
+  const bigrams = buildNgrams(tokens, 2);
+  const trigrams = buildNgrams(tokens, 3);
+  // Weighted terms for TF-IDF emphasizing title/description/headings
+  const tfidfTerms: string[] = [];
+  const pushWeighted = (s: string | undefined, weight: number) => {
+    if (!s) return;
+    const ws = toWords(s);
+    for (let i = 0; i < weight; i++) tfidfTerms.push(...ws);
+  };
+  pushWeighted(finalTitle, 5);
+  pushWeighted(finalDescription, 4);
+  for (const h of headings.h1) pushWeighted(h, 4);
+  for (const h of headings.h2) pushWeighted(h, 3);
+  for (const h of headings.h3) pushWeighted(h, 2);
+  tfidfTerms.push(...tokens);
+
+  // Filter TF-IDF candidate terms to remove noise
+  const filteredTfidf = filterTerms(tfidfTerms);
+
+  const doc: DocumentMetrics = {
+    filePath,
+    routeHint,
+    title: finalTitle,
+    description: finalDescription,
+    headings,
+    wordCount,
+    sentenceCount,
+    fleschReadingEase,
+    fleschKincaidGrade,
+    gunningFog,
+    smogIndex,
+    colemanLiau,
+    readabilitySections: sectionReadability(sentences),
+    hardSentences,
+    internalLinks: links.internal,
+    externalLinks: links.external,
+    anchorIds,
+    canonicalUrls: head.canonicalUrls,
+    robotsMeta: head.robotsMeta,
+    social: head.social,
+    jsonLd: head.jsonLd,
+    jsonLdErrors: head.jsonLdErrors,
+    imagesWithoutAlt,
+    a11y: extractAccessibility(raw, ext),
+    resources: ext === ".html" ? extractResources(raw) : { stylesheets: [], scripts: [], images: [], fonts: [], renderBlocking: [] },
+    warnings: [],
+    tokens,
+    bigrams,
+    trigrams,
+    tfidfTerms: filteredTfidf,
+    firstParagraph: extractFirstParagraph(ext === ".html" ? raw : originalRaw, ext),
+    targetKeywords: ext === ".md" || ext === ".mdx" ? readFrontmatterList(originalRaw, "targetKeywords") : [],
+  };
+  doc.warnings = evaluateRules(doc, rulesForDocument(doc, rootDir, config, definitions), definitions);
+  return doc;
+}
+
+function extractMdHeadings(md: string): { h1: string[]; h2: string[]; h3: string[] } {
+  const h1: string[] = [];
+  const h2: string[] = [];
+  const h3: string[] = [];
+  const lines = md.split(/\r?\n/);
+  for (const line of lines) {
+    const m1 = /^\s*#\s+(.+)$/.exec(line);
+    if (m1) { h1.push(m1[1].trim()); continue; }
+    const m2 = /^\s*##\s+(.+)$/.exec(line);
+    if (m2) { h2.push(m2[1].trim()); continue; }
+    const m3 = /^\s*###\s+(.+)$/.exec(line);
+    if (m3) { h3.push(m3[1].trim()); continue; }
+  }
+  return { h1, h2, h3 };
+}
+
+/**
+ * Improved TF-IDF: uses sublinear TF (1 + log(tf)), smoothed IDF, stemming/normalization,
+ * and a minDocFreq threshold to exclude extremely rare terms that are usually noise.
+ */
+export function computeTfidfEnhanced(allDocs: { id: string; terms: string[] }[], topK = 25, opts?: { minDocFreq?: number }) {
+  const minDocFreq = opts?.minDocFreq ?? 2;
+  const docCount = allDocs.length;
+  const termDocFreq = new Map<string, number>();
+  // Build a canonical surface-form map: normalized -> { surface -> count }
+  const surfaceMap = new Map<string, Map<string, number>>();
+  // Document frequency (on normalized terms)
+  for (const d of allDocs) {
     const normals = d.terms.map(normalizeTerm).filter(Boolean);
     const unique = new Set(normals);
     for (let i = 0; i < d.terms.length; i++) {
@@ -661,40 +1882,1055 @@ export function computeTfidfEnhanced(allDocs: { id: string; terms: string[] }[],
     return best || norm;
   }
 
-  const arr = Array.from(tfidfScores.entries()).map(([term, tfidf]) => ({ term: canonicalForm(term), tfidf }));
-  arr.sort((a, b) => b.tfidf - a.tfidf);
-  return arr.slice(0, topK);
+  const arr = Array.from(tfidfScores.entries()).map(([term, tfidf]) => ({ term: canonicalForm(term), tfidf }));
+  arr.sort((a, b) => b.tfidf - a.tfidf);
+  return arr.slice(0, topK);
+}
+
+/**
+ * Full per-document TF-IDF vectors (normalized term -> sublinear tf * smoothed idf), kept for
+ * keyword ranking and similarity. Terms in fewer than minDocFreq documents are dropped.
+ * Also used by the site's related-content ranking (src/lib/related.ts).
+ */
+export function tfidfVectors(allDocs: { id: string; terms: string[] }[], minDocFreq = 2): Map<string, Map<string, number>> {
+  const docCount = allDocs.length;
+  const termDocFreq = new Map<string, number>();
+  for (const d of allDocs) {
+    const unique = new Set(d.terms.map(normalizeTerm).filter(Boolean));
+    for (const t of unique) termDocFreq.set(t, (termDocFreq.get(t) || 0) + 1);
+  }
+  const globalIdf = new Map<string, number>();
+  for (const [t, df] of termDocFreq) {
+    if (df < minDocFreq) continue;
+    globalIdf.set(t, Math.log((docCount + 1) / (df + 1)) + 1);
+  }
+  const vectors = new Map<string, Map<string, number>>();
+  for (const d of allDocs) {
+    const tf = new Map<string, number>();
+    for (const t0 of d.terms) {
+      const t = normalizeTerm(t0);
+      if (!t) continue;
+      tf.set(t, (tf.get(t) || 0) + 1);
+    }
+    const vector = new Map<string, number>();
+    for (const [t, f] of tf) {
+      const idf = globalIdf.get(t) || 0;
+      if (idf === 0) continue;
+      vector.set(t, (1 + Math.log(f)) * idf); // sublinear tf * idf
+    }
+    vectors.set(d.id, vector);
+  }
+  return vectors;
+}
+
+export function canonicalizeCorpus(allDocs: { id: string; terms: string[] }[]) {
+  const surfaceMap = new Map<string, Map<string, number>>();
+  for (const d of allDocs) {
+    for (const surf of d.terms) {
+      const norm = normalizeTerm(surf);
+      if (!norm) continue;
+      let m = surfaceMap.get(norm);
+      if (!m) { m = new Map(); surfaceMap.set(norm, m); }
+      m.set(surf, (m.get(surf) || 0) + 1);
+    }
+  }
+  const canonical = new Map<string, string>();
+  for (const [norm, m] of surfaceMap) {
+    let best = "";
+    let bestCount = 0;
+    for (const [surf, cnt] of m) {
+      if (cnt > bestCount || (cnt === bestCount && (best === "" || surf.length < best.length))) {
+        best = surf;
+        bestCount = cnt;
+      }
+    }
+    canonical.set(norm, best || norm);
+  }
+  return canonical;
+}
+
+// Schemes that look "internal" to isExternal() but never resolve to a built page
+const NON_NAVIGABLE_SCHEME = /^(mailto|tel|sms|javascript|data|blob):/i;
+
+/**
+ * Map a file under the audit root to every URL path that serves it.
+ * `writing/foo/index.html` answers `/writing/foo/`, `/writing/foo` and the explicit file;
+ * `404.html` answers `/404.html`, `/404` and `/404/` (Astro's `build.format` variants).
+ */
+export function routeKeysForFile(relPath: string): string[] {
+  const p = "/" + relPath.replace(/\\/g, "/").replace(/^\/+/, "");
+  if (p === "/index.html") return ["/", p];
+  if (p.endsWith("/index.html")) {
+    const dir = p.slice(0, -"index.html".length);
+    return [dir, dir.slice(0, -1), p];
+  }
+  if (p.endsWith(".html")) {
+    const bare = p.slice(0, -".html".length);
+    return [bare, bare + "/", p];
+  }
+  return [p];
+}
+
+/**
+ * Resolve an internal href relative to the page that contains it.
+ * Returns null for hrefs that can't point at a built page (mailto:, other hosts, ...).
+ */
+export function resolveInternalHref(href: string, fromRoute: string): { pathname: string; fragment?: string } | null {
+  const trimmed = href.trim();
+  if (!trimmed || NON_NAVIGABLE_SCHEME.test(trimmed)) return null;
+  let u: URL;
+  try {
+    u = new URL(trimmed, "http://example.com" + fromRoute);
+  } catch {
+    return null;
+  }
+  if (u.host !== "example.com") return null;
+  const decode = (s: string) => { try { return decodeURIComponent(s); } catch { return s; } };
+  const fragment = u.hash ? decode(u.hash.slice(1)) : "";
+  return { pathname: decode(u.pathname), fragment: fragment || undefined };
+}
+
+/**
+ * Check every internal link of the built HTML pages against the files present under rootDir.
+ * Source roots (.astro/.mdx) have no resolvable routes, so only .html documents are checked.
+ */
+async function buildRouteIndex(rootDir: string): Promise<Map<string, string>> {
+  const routes = new Map<string, string>();
+  for (const f of await walkFiles(rootDir, null)) {
+    for (const key of routeKeysForFile(path.relative(rootDir, f))) {
+      if (!routes.has(key)) routes.set(key, f);
+    }
+  }
+  return routes;
+}
+
+function findBrokenLinks(documents: DocumentMetrics[], rootDir: string, routes: Map<string, string>): BrokenLink[] {
+  const htmlDocs = documents.filter(d => path.extname(d.filePath).toLowerCase() === ".html");
+  if (htmlDocs.length === 0) return [];
+  const idsByFile = new Map<string, Set<string>>(htmlDocs.map(d => [d.filePath, new Set(d.anchorIds)]));
+
+  const broken: BrokenLink[] = [];
+  for (const d of htmlDocs) {
+    const fromRoute = routeKeysForFile(path.relative(rootDir, d.filePath))[0];
+    const seen = new Set<string>();
+    for (const href of d.internalLinks) {
+      if (seen.has(href)) continue;
+      seen.add(href);
+      const target = resolveInternalHref(href, fromRoute);
+      if (!target) continue;
+      const targetFile = routes.get(target.pathname);
+      if (!targetFile) {
+        broken.push({ filePath: d.filePath, href, reason: "missing-page" });
+        continue;
+      }
+      // "#top" is always valid per the HTML spec, even without a matching id
+      if (!target.fragment || target.fragment === "top") continue;
+      const ids = idsByFile.get(targetFile);
+      if (ids && !ids.has(target.fragment)) {
+        broken.push({ filePath: d.filePath, href, reason: "missing-anchor" });
+      }
+    }
+  }
+  return broken;
+}
+
+/**
+ * Parse robots.txt into the rules that apply to `userAgent` (falling back to the `*` groups)
+ * plus every Sitemap: directive.
+ */
+export function parseRobots(text: string, userAgent = "*"): { rules: RobotsRule[]; sitemaps: string[] } {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.replace(/#.*/, "").match(/^\s*([A-Za-z-]+)\s*:\s*(.*?)\s*$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2];
+    if (key === "sitemap") {
+      if (value) sitemaps.push(value);
+    } else if (key === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || current.rules.length) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((key === "allow" || key === "disallow") && current) {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    }
+  }
+  const ua = userAgent.toLowerCase();
+  const specific = groups.filter(g => ua !== "*" && g.agents.includes(ua));
+  const chosen = specific.length ? specific : groups.filter(g => g.agents.includes("*"));
+  return { rules: chosen.flatMap(g => g.rules), sitemaps };
+}
+
+/**
+ * The rule that decides whether `pathname` may be crawled, or null when nothing matches.
+ * Follows RFC 9309: the longest matching pattern wins and Allow wins ties; `*` and a trailing `$` are wildcards.
+ */
+export function matchRobotsRule(rules: RobotsRule[], pathname: string): RobotsRule | null {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    const anchored = rule.pattern.endsWith("$");
+    const body = (anchored ? rule.pattern.slice(0, -1) : rule.pattern).split("*").map(s => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    if (!new RegExp("^" + body + (anchored ? "$" : "")).test(pathname)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) best = rule;
+  }
+  return best;
+}
+
+async function readSitemapUrls(file: string, rootDir: string, routes: Map<string, string>, seen: Set<string>, sitemaps: string[]): Promise<string[]> {
+  if (seen.has(file)) return [];
+  seen.add(file);
+  let xml: string;
+  try {
+    xml = await fs.readFile(file, "utf8");
+  } catch {
+    return [];
+  }
+  sitemaps.push(path.relative(rootDir, file));
+  const $ = loadCheerio(xml, { xmlMode: true });
+  const urls = $("url > loc").map((_, el) => $(el).text().trim()).get();
+  // A sitemap index lists child sitemaps; follow the ones that exist in the build
+  for (const loc of $("sitemap > loc").map((_, el) => $(el).text().trim()).get()) {
+    try {
+      const child = routes.get(decodeURIComponent(new URL(loc).pathname));
+      if (child) urls.push(...await readSitemapUrls(child, rootDir, routes, seen, sitemaps));
+    } catch {
+      // Malformed child sitemap URL
+    }
+  }
+  return urls;
+}
+
+/**
+ * Diff the sitemap(s) and robots.txt in the build against the crawled HTML pages.
+ * Pages that are noindex, canonicalize elsewhere or are the 404 page aren't expected in the sitemap.
+ */
+async function auditCrawlability(documents: DocumentMetrics[], rootDir: string, routes: Map<string, string>): Promise<Crawlability | null> {
+  const htmlDocs = documents.filter(d => path.extname(d.filePath).toLowerCase() === ".html");
+  if (htmlDocs.length === 0) return null;
+
+  let robotsText = "";
+  try {
+    robotsText = await fs.readFile(path.join(rootDir, "robots.txt"), "utf8");
+  } catch {
+    // No robots.txt: everything is crawlable
+  }
+  const robots = parseRobots(robotsText);
+
+  const sitemapFiles = new Set<string>();
+  for (const loc of robots.sitemaps) {
+    try {
+      const file = routes.get(decodeURIComponent(new URL(loc).pathname));
+      if (file) sitemapFiles.add(file);
+    } catch {
+      // Malformed Sitemap: directive
+    }
+  }
+  for (const name of ["/sitemap-index.xml", "/sitemap.xml"]) {
+    const file = routes.get(name);
+    if (file) sitemapFiles.add(file);
+  }
+  const sitemaps: string[] = [];
+  const seen = new Set<string>();
+  const locs: string[] = [];
+  for (const file of sitemapFiles) locs.push(...await readSitemapUrls(file, rootDir, routes, seen, sitemaps));
+
+  const isNoindex = (d: DocumentMetrics) => /\bnoindex\b/i.test(d.robotsMeta ?? "");
+  const docByFile = new Map(htmlDocs.map(d => [d.filePath, d]));
+  const listedFiles = new Set<string>();
+  const sitemapUrlsWithoutPage: string[] = [];
+  const noindexInSitemap: string[] = [];
+  const listedPaths: string[] = [];
+  for (const loc of new Set(locs)) {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(loc).pathname);
+    } catch {
+      sitemapUrlsWithoutPage.push(loc);
+      continue;
+    }
+    listedPaths.push(pathname);
+    const file = routes.get(pathname);
+    const doc = file ? docByFile.get(file) : undefined;
+    if (!doc) {
+      sitemapUrlsWithoutPage.push(loc);
+      continue;
+    }
+    listedFiles.add(doc.filePath);
+    if (isNoindex(doc)) noindexInSitemap.push(loc);
+  }
+
+  const missingFromSitemap: string[] = [];
+  const pagePaths: string[] = [];
+  for (const d of htmlDocs) {
+    const keys = routeKeysForFile(path.relative(rootDir, d.filePath));
+    if (keys.includes("/404") || isNoindex(d)) continue;
+    let canonicalPath: string | undefined;
+    try {
+      if (d.canonicalUrls[0]) canonicalPath = decodeURIComponent(new URL(d.canonicalUrls[0]).pathname);
+    } catch {
+      // Malformed canonical is reported by og-url
+    }
+    if (canonicalPath && !keys.includes(canonicalPath)) continue;
+    pagePaths.push(keys[0]);
+    if (!listedFiles.has(d.filePath)) missingFromSitemap.push(keys[0]);
+  }
+
+  const blockedByRobots: Array<{ url: string; rule: string }> = [];
+  for (const pathname of new Set([...pagePaths, ...listedPaths])) {
+    const rule = matchRobotsRule(robots.rules, pathname);
+    if (rule && !rule.allow) blockedByRobots.push({ url: pathname, rule: `Disallow: ${rule.pattern}` });
+  }
+
+  return {
+    sitemaps,
+    sitemapUrlCount: locs.length,
+    missingFromSitemap: missingFromSitemap.sort(),
+    sitemapUrlsWithoutPage,
+    noindexInSitemap,
+    blockedByRobots,
+  };
+}
+
+const ASSET_KINDS = ["html", "css", "js", "font", "image"] as const;
+
+function assetKind(file: string): AssetKind | null {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".html") return "html";
+  if (ext === ".css") return "css";
+  if (ext === ".js" || ext === ".mjs") return "js";
+  if ([".woff2", ".woff", ".ttf", ".otf", ".eot"].includes(ext)) return "font";
+  if ([".png", ".jpg", ".jpeg", ".gif", ".webp", ".avif", ".svg", ".ico"].includes(ext)) return "image";
+  return null;
+}
+
+/** URLs a built page makes the browser fetch (stylesheets, scripts, images, preloaded fonts). */
+function extractResources(html: string): PageResources {
+  const resources: PageResources = { stylesheets: [], scripts: [], images: [], fonts: [], renderBlocking: [] };
+  try {
+    const $ = loadCheerio(html);
+    const attr = (selector: string, name: string) => $(selector).map((_, el) => ($(el).attr(name) || "").trim()).get().filter(Boolean);
+    resources.stylesheets = attr('link[rel~="stylesheet"]', "href");
+    resources.scripts = [...attr("script[src]", "src"), ...attr('link[rel="modulepreload"]', "href")];
+    // Inline module scripts can still import bundled chunks
+    $('script[type="module"]:not([src])').each((_, el) => {
+      for (const m of $(el).text().matchAll(/(?:\bfrom\s*|\bimport\s*\(?\s*)["']([^"']+\.m?js)["']/g)) resources.scripts.push(m[1]);
+    });
+    resources.images = [...attr("img[src]", "src"), ...attr("video[poster]", "poster"), ...attr('link[rel="preload"][as="image"]', "href")];
+    resources.fonts = attr('link[rel="preload"][as="font"]', "href");
+    $('head link[rel~="stylesheet"]').each((_, el) => {
+      const media = ($(el).attr("media") || "all").trim();
+      if (media !== "print" && $(el).attr("disabled") === undefined) resources.renderBlocking.push($(el).attr("href") || "");
+    });
+    $("head script[src]").each((_, el) => {
+      if ($(el).attr("async") === undefined && $(el).attr("defer") === undefined && $(el).attr("type") !== "module") {
+        resources.renderBlocking.push($(el).attr("src")!);
+      }
+    });
+    resources.renderBlocking = resources.renderBlocking.filter(Boolean);
+  } catch {
+    // Unparseable HTML is reported by other checks
+  }
+  return resources;
+}
+
+type FontFaceSource = {
+  /** Lowercase, unquoted */
+  family: string;
+  weight: [number, number];
+  style: "normal" | "italic";
+  /** Code point ranges from unicode-range; null when the face covers everything */
+  unicodeRange: Array<[number, number]> | null;
+  /** First src the browser would try */
+  file: string;
+};
+
+/** A style rule's font-related declarations (font-family, font-weight, font-style, custom properties). */
+type FontRule = { selector: string; declarations: Map<string, string> };
+
+type StylesheetContents = {
+  /** @imports (recursively) and url() references other than @font-face sources */
+  files: string[];
+  fontFaces: FontFaceSource[];
+  fontRules: FontRule[];
+};
+
+const GENERIC_FAMILIES = new Set([
+  "serif", "sans-serif", "monospace", "cursive", "fantasy", "system-ui", "math", "emoji", "fangsong",
+  "ui-serif", "ui-sans-serif", "ui-monospace", "ui-rounded",
+]);
+
+function cssDeclarations(block: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  for (const part of block.split(";")) {
+    const colon = part.indexOf(":");
+    if (colon === -1) continue;
+    declarations.set(part.slice(0, colon).trim().toLowerCase(), part.slice(colon + 1).replace(/!important/i, "").trim());
+  }
+  return declarations;
+}
+
+function cssWeight(value: string): number | null {
+  if (value === "normal") return 400;
+  if (value === "bold" || value === "bolder") return 700;
+  if (value === "lighter") return 100;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// "U+0000-00FF, U+0131, U+4??" → [[0x0, 0xff], [0x131, 0x131], [0x400, 0x4ff]]
+function parseUnicodeRange(value: string): Array<[number, number]> {
+  return value.split(",").map(r => r.trim().replace(/^u\+/i, "")).filter(Boolean).map(r => {
+    const [from, to] = r.split("-");
+    return [parseInt(from.replace(/\?/g, "0"), 16), parseInt((to ?? from).replace(/\?/g, "f"), 16)];
+  });
+}
+
+/** Style rules and @font-face blocks of one stylesheet's text; `resolve` maps a url() to a built file. */
+function parseFontCss(css: string, resolve: (ref: string) => string | undefined): Omit<StylesheetContents, "files"> {
+  const fontFaces: FontFaceSource[] = [];
+  for (const face of css.match(/@font-face\s*{[^}]*}/g) ?? []) {
+    const d = cssDeclarations(face.slice(face.indexOf("{") + 1, -1));
+    const first = /url\(\s*["']?([^"')]+)["']?\s*\)/.exec(d.get("src") ?? "");
+    const file = first ? resolve(first[1]) : undefined;
+    const family = (d.get("font-family") ?? "").replace(/["']/g, "").trim().toLowerCase();
+    if (!file || !family) continue;
+    const weights = (d.get("font-weight") ?? "normal").split(/\s+/).map(cssWeight).filter((w): w is number => w !== null);
+    fontFaces.push({
+      family,
+      weight: [weights[0] ?? 400, weights[1] ?? weights[0] ?? 400],
+      style: /italic|oblique/.test(d.get("font-style") ?? "") ? "italic" : "normal",
+      unicodeRange: d.has("unicode-range") ? parseUnicodeRange(d.get("unicode-range")!) : null,
+      file,
+    });
+  }
+  const fontRules: FontRule[] = [];
+  // Innermost blocks only, so rules inside @media count as plain rules
+  for (const m of css.replace(/@font-face\s*{[^}]*}/g, "").matchAll(/([^{}]+){([^{}]*)}/g)) {
+    const declarations = new Map([...cssDeclarations(m[2])].filter(([prop]) => prop.startsWith("--") || /^font-(family|weight|style)$/.test(prop)));
+    if (declarations.size) fontRules.push({ selector: m[1].trim(), declarations });
+  }
+  return { fontFaces, fontRules };
+}
+
+/**
+ * Everything a stylesheet pulls in: @imports (recursively) and url() references, plus its
+ * @font-face sources and font rules, which usedFontFiles() narrows down to what a page fetches.
+ */
+async function stylesheetDependencies(
+  cssFile: string,
+  cssPath: string,
+  routes: Map<string, string>,
+  memo: Map<string, StylesheetContents>,
+): Promise<StylesheetContents> {
+  const cached = memo.get(cssFile);
+  if (cached) return cached;
+  const contents: StylesheetContents = { files: [], fontFaces: [], fontRules: [] };
+  memo.set(cssFile, contents); // guards against @import cycles
+  let css: string;
+  try {
+    css = await fs.readFile(cssFile, "utf8");
+  } catch {
+    return contents;
+  }
+  const resolve = (ref: string) => {
+    try {
+      const u = new URL(ref, "http://example.com" + cssPath);
+      return u.host === "example.com" ? routes.get(decodeURIComponent(u.pathname)) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  for (const m of withoutComments.matchAll(/@import\s+(?:url\(\s*)?["']?([^"')\s;]+)["']?\s*\)?[^;]*;/g)) {
+    const file = resolve(m[1]);
+    if (!file) continue;
+    const imported = await stylesheetDependencies(file, new URL(m[1], "http://example.com" + cssPath).pathname, routes, memo);
+    contents.files.push(file, ...imported.files);
+    contents.fontFaces.push(...imported.fontFaces);
+    contents.fontRules.push(...imported.fontRules);
+  }
+  const own = parseFontCss(withoutComments, resolve);
+  contents.fontFaces.push(...own.fontFaces);
+  contents.fontRules.push(...own.fontRules);
+  const rest = withoutComments.replace(/@font-face\s*{[^}]*}/g, "").replace(/@import[^;]*;/g, "");
+  for (const m of rest.matchAll(/url\(\s*["']?([^"')]+)["']?\s*\)/g)) {
+    if (m[1].startsWith("data:")) continue;
+    const file = resolve(m[1]);
+    if (file) contents.files.push(file);
+  }
+  return contents;
+}
+
+/**
+ * Font files a page makes the browser download: for each family its matching rules (and
+ * style attributes) reach before a generic or earlier web font, the faces closest to the
+ * weights and styles the page uses, skipping unicode-range subsets none of its text falls in.
+ * Selectors are matched without pseudo-classes, so this errs toward counting a face.
+ */
+function usedFontFiles(html: string, fontFaces: FontFaceSource[], fontRules: FontRule[]): string[] {
+  if (fontFaces.length === 0) return [];
+  let $: ReturnType<typeof loadCheerio>;
+  try {
+    $ = loadCheerio(html);
+  } catch {
+    return [];
+  }
+  const rules = [...fontRules, ...parseFontCss($("style").text().replace(/\/\*[\s\S]*?\*\//g, ""), () => undefined).fontRules];
+  const matches = (selector: string) => {
+    const plain = selector.replace(/::?[a-z-]+(\([^)]*\))?/gi, "").trim();
+    if (!plain || /^(from|to|\d+%)$/.test(plain)) return !plain;
+    try {
+      return $(plain).length > 0;
+    } catch {
+      return true;
+    }
+  };
+  const declarations = rules.filter(r => matches(r.selector)).map(r => r.declarations);
+  $("[style]").each((_, el) => { declarations.push(cssDeclarations($(el).attr("style") ?? "")); });
+
+  // Custom properties can differ per selector; every value a matched rule sets stays possible
+  const vars = new Map<string, string[]>();
+  for (const d of declarations) for (const [prop, value] of d) if (prop.startsWith("--")) vars.set(prop, [...(vars.get(prop) ?? []), value]);
+  const expand = (value: string, depth = 0): string[] => {
+    const m = /var\(\s*(--[\w-]+)\s*(?:,([^()]*))?\)/.exec(value);
+    if (!m || depth > 10) return [value];
+    const options = vars.get(m[1]) ?? [m[2]?.trim() ?? ""];
+    return options.flatMap(o => expand(value.slice(0, m.index) + o + value.slice(m.index + m[0].length), depth + 1));
+  };
+
+  const faceFamilies = new Set(fontFaces.map(f => f.family));
+  const families = new Set<string>();
+  for (const d of declarations) {
+    for (const stack of expand(d.get("font-family") ?? "")) {
+      for (const name of stack.split(",").map(f => f.replace(/["']/g, "").trim().toLowerCase()).filter(Boolean)) {
+        if (faceFamilies.has(name)) families.add(name);
+        // The browser stops at the first family it can render with: a web font or a generic
+        if (faceFamilies.has(name) || GENERIC_FAMILIES.has(name)) break;
+      }
+    }
+  }
+  if (families.size === 0) return [];
+
+  const weights = new Set([400]);
+  if ($("b, strong, th, h1, h2, h3, h4, h5, h6").length) weights.add(700);
+  const styles = new Set<FontFaceSource["style"]>(["normal"]);
+  if ($("i, em, cite, dfn, var, address").length) styles.add("italic");
+  for (const d of declarations) {
+    for (const value of expand(d.get("font-weight") ?? "")) { const w = cssWeight(value.trim()); if (w !== null) weights.add(w); }
+    if (expand(d.get("font-style") ?? "").some(v => /italic|oblique/.test(v))) styles.add("italic");
+  }
+
+  const codePoints = new Set(Array.from($("body").text(), ch => ch.codePointAt(0)!));
+  const coversText = (f: FontFaceSource) => !f.unicodeRange || [...codePoints].some(c => f.unicodeRange!.some(([lo, hi]) => c >= lo && c <= hi));
+  const files = new Set<string>();
+  for (const family of families) {
+    for (const style of styles) {
+      const ofFamily = fontFaces.filter(f => f.family === family);
+      const candidates = ofFamily.some(f => f.style === style) ? ofFamily.filter(f => f.style === style) : ofFamily;
+      for (const weight of weights) {
+        // Closest weight wins; each unicode-range subset of that weight is a separate file
+        const distance = (f: FontFaceSource) => (weight < f.weight[0] ? f.weight[0] - weight : weight > f.weight[1] ? weight - f.weight[1] : 0);
+        const best = Math.min(...candidates.map(distance));
+        for (const f of candidates) if (distance(f) === best && coversText(f)) files.add(f.file);
+      }
+    }
+  }
+  return [...files];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+const LARGE_ASSET_BYTES = 200 * 1024;
+const ICON_MAX_SIZE = 256;
+
+/** Why an asset is heavier than it needs to be, or null when it looks fine. */
+async function unoptimizedReason(file: string, bytes: number, relPath: string): Promise<string | null> {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".ttf" || ext === ".otf") {
+    return `${ext.slice(1).toUpperCase()} font; WOFF2 is usually 30–50% smaller${bytes > 500 * 1024 ? ", and subsetting would cut it further" : ""}`;
+  }
+  if (ext === ".png") {
+    const info = await probeImage(file);
+    const iconSized = info?.width && info.height && info.width <= ICON_MAX_SIZE && info.height <= ICON_MAX_SIZE;
+    if ((iconSized || /(^|\/)[^/]*icons?\//.test(relPath)) && bytes > 4 * 1024) {
+      return `${info?.width ?? "?"}×${info?.height ?? "?"} PNG icon; SVG or WebP would be smaller`;
+    }
+    if (bytes > 100 * 1024) return "PNG over 100 KB; WebP or AVIF would be smaller";
+  }
+  if (ext === ".css") {
+    const imports = ((await fs.readFile(file, "utf8").catch(() => "")).replace(/\/\*[\s\S]*?\*\//g, "").match(/@import\s/g) ?? []).length;
+    if (imports) return `@import chain of ${imports} stylesheet(s) delays first render; bundle them`;
+  }
+  if ((ext === ".jpg" || ext === ".jpeg" || ext === ".gif") && bytes > 100 * 1024) return `${ext.slice(1).toUpperCase()} over 100 KB; WebP or AVIF would be smaller`;
+  if (bytes > LARGE_ASSET_BYTES && assetKind(file) !== "font" && !relPath.startsWith("og/")) return `over ${formatBytes(LARGE_ASSET_BYTES)}`;
+  return null;
+}
+
+/**
+ * Page weight per route (the HTML plus every stylesheet, script, font and image it makes
+ * the browser fetch), the heaviest assets site-wide and assets worth optimizing.
+ */
+async function measurePerformance(documents: DocumentMetrics[], rootDir: string, routes: Map<string, string>): Promise<PerformanceSummary | null> {
+  const htmlDocs = documents.filter(d => path.extname(d.filePath).toLowerCase() === ".html");
+  if (htmlDocs.length === 0) return null;
+
+  const sizes = new Map<string, number>();
+  const sizeOf = async (file: string) => {
+    if (!sizes.has(file)) sizes.set(file, (await fs.stat(file).catch(() => null))?.size ?? 0);
+    return sizes.get(file)!;
+  };
+  const cssMemo = new Map<string, StylesheetContents>();
+  const declaredFonts = new Set<string>();
+  const referencedBy = new Map<string, number>();
+  const pages: PerformanceSummary["pages"] = [];
+  for (const d of htmlDocs) {
+    const route = routeKeysForFile(path.relative(rootDir, d.filePath))[0];
+    const files = new Set<string>();
+    const fontFaces: FontFaceSource[] = [];
+    const fontRules: FontRule[] = [];
+    const add = async (url: string, expandCss: boolean) => {
+      const target = resolveInternalHref(url, route);
+      const file = target ? routes.get(target.pathname) : undefined;
+      if (!file || files.has(file)) return;
+      files.add(file);
+      if (expandCss && assetKind(file) === "css") {
+        const contents = await stylesheetDependencies(file, target!.pathname, routes, cssMemo);
+        for (const dep of contents.files) files.add(dep);
+        fontFaces.push(...contents.fontFaces);
+        fontRules.push(...contents.fontRules);
+      }
+    };
+    const r = d.resources;
+    for (const url of r.stylesheets) await add(url, true);
+    for (const url of [...r.scripts, ...r.images, ...r.fonts]) await add(url, false);
+    // Declared faces only download when the page's text is set in them
+    for (const f of fontFaces) declaredFonts.add(f.file);
+    const html = await fs.readFile(d.filePath, "utf8").catch(() => "");
+    for (const file of usedFontFiles(html, fontFaces, fontRules)) files.add(file);
+
+    const bytes = { html: await sizeOf(d.filePath), css: 0, js: 0, font: 0, image: 0, total: 0 };
+    for (const file of files) {
+      const kind = assetKind(file);
+      if (!kind || kind === "html") continue;
+      bytes[kind] += await sizeOf(file);
+      referencedBy.set(file, (referencedBy.get(file) ?? 0) + 1);
+    }
+    bytes.total = ASSET_KINDS.reduce((sum, k) => sum + bytes[k], 0);
+    pages.push({ filePath: d.filePath, route, bytes, requests: files.size + 1 });
+  }
+
+  const assets: PerformanceSummary["heaviestAssets"] = [];
+  const unoptimizedAssets: PerformanceSummary["unoptimizedAssets"] = [];
+  const directories = new Map<string, { files: number; bytes: number }>();
+  for (const file of new Set(routes.values())) {
+    const kind = assetKind(file);
+    if (!kind || kind === "html") continue;
+    const bytes = await sizeOf(file);
+    const rel = path.relative(rootDir, file).split(path.sep).join("/");
+    assets.push({ file: rel, kind, bytes, pages: referencedBy.get(file) ?? 0 });
+    const dir = rel.includes("/") ? rel.slice(0, rel.lastIndexOf("/")) : ".";
+    const entry = directories.get(dir) ?? { files: 0, bytes: 0 };
+    entry.files++;
+    entry.bytes += bytes;
+    directories.set(dir, entry);
+    let reason = await unoptimizedReason(file, bytes, rel);
+    // Images may be used by feeds or social cards, but unused fonts, CSS and JS are dead weight
+    if (!referencedBy.has(file) && kind !== "image") {
+      const unused = kind === "font" && declaredFonts.has(file) ? "declared in @font-face but used by no page" : "not referenced by any page";
+      reason = `${unused}${reason ? `; ${reason}` : ""}`;
+    }
+    if (reason) unoptimizedAssets.push({ file: rel, bytes, reason, pages: referencedBy.get(file) ?? 0 });
+  }
+
+  return {
+    pages: pages.sort((a, b) => b.bytes.total - a.bytes.total || a.route.localeCompare(b.route)),
+    heaviestAssets: assets.sort((a, b) => b.bytes - a.bytes || a.file.localeCompare(b.file)).slice(0, 20),
+    unoptimizedAssets: unoptimizedAssets.sort((a, b) => b.bytes - a.bytes || a.file.localeCompare(b.file)),
+    assetDirectories: Array.from(directories, ([dir, v]) => ({ dir, ...v })).sort((a, b) => b.bytes - a.bytes),
+  };
+}
+
+function checkBudgets(doc: DocumentMetrics, ctx: CorpusContext): Finding[] {
+  const page = ctx.pageWeights.get(doc.filePath);
+  if (!page) return [];
+  const out: Finding[] = [];
+  for (const [kind, limitKb] of Object.entries(ctx.budgetsKb) as Array<[AssetKind | "total", number]>) {
+    const bytes = page.bytes[kind];
+    if (bytes > limitKb * 1024) out.push({ message: `${kind === "total" ? "Page weight" : `${kind.toUpperCase()} weight`} ${formatBytes(bytes)} exceeds budget of ${limitKb} KB`, subject: kind });
+  }
+  return out;
+}
+
+/**
+ * PageRank over a directed graph (node -> linked nodes). Dangling pages spread their rank
+ * evenly, so scores always sum to 1.
+ */
+export function pageRank(edges: Map<string, Set<string>>, damping = 0.85, iterations = 100): Map<string, number> {
+  const nodes = Array.from(edges.keys());
+  const n = nodes.length;
+  let rank = new Map(nodes.map(id => [id, 1 / n]));
+  for (let iter = 0; iter < iterations; iter++) {
+    let dangling = 0;
+    for (const id of nodes) if (edges.get(id)!.size === 0) dangling += rank.get(id)!;
+    const next = new Map(nodes.map(id => [id, (1 - damping) / n + (damping * dangling) / n]));
+    for (const id of nodes) {
+      const out = edges.get(id)!;
+      for (const target of out) next.set(target, next.get(target)! + (damping * rank.get(id)!) / out.size);
+    }
+    let delta = 0;
+    for (const id of nodes) delta += Math.abs(next.get(id)! - rank.get(id)!);
+    rank = next;
+    if (delta < 1e-9) break;
+  }
+  return rank;
+}
+
+/** Breadth-first click depth from `start`; unreachable nodes are absent. */
+export function clickDepths(edges: Map<string, Set<string>>, start: string): Map<string, number> {
+  const depth = new Map([[start, 0]]);
+  const queue = [start];
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const target of edges.get(id) ?? []) {
+      if (depth.has(target)) continue;
+      depth.set(target, depth.get(id)! + 1);
+      queue.push(target);
+    }
+  }
+  return depth;
+}
+
+/**
+ * Graph of the built HTML pages and the internal links between them. Weakly linked pages
+ * (few linking pages, or buried deep) get link sources suggested from their most similar
+ * pages by TF-IDF that don't already link to them. Like the competing-pages check, only
+ * pages of at least `minWords` take part in suggestions, which keeps listings out.
+ */
+function analyzeLinkGraph(
+  documents: DocumentMetrics[],
+  rootDir: string,
+  routes: Map<string, string>,
+  vectors: Map<string, Map<string, number>>,
+  options: NonNullable<SeoAuditConfig["linkGraph"]>,
+  minWords: number,
+): LinkGraph | null {
+  const home = routes.get("/");
+  const routeOf = (d: DocumentMetrics) => routeKeysForFile(path.relative(rootDir, d.filePath))[0];
+  const pages = documents.filter(d => path.extname(d.filePath).toLowerCase() === ".html" && routeOf(d) !== "/404");
+  if (!home || pages.length === 0) return null;
+
+  const edges = new Map<string, Set<string>>(pages.map(d => [d.filePath, new Set<string>()]));
+  for (const d of pages) {
+    const fromRoute = routeOf(d);
+    for (const href of d.internalLinks) {
+      const target = resolveInternalHref(href, fromRoute);
+      const file = target ? routes.get(target.pathname) : undefined;
+      if (file && file !== d.filePath && edges.has(file)) edges.get(d.filePath)!.add(file);
+    }
+  }
+  const inbound = new Map<string, Set<string>>(pages.map(d => [d.filePath, new Set<string>()]));
+  for (const [from, targets] of edges) for (const to of targets) inbound.get(to)!.add(from);
+
+  const depths = clickDepths(edges, home);
+  const rank = pageRank(edges);
+  const graphPages = pages.map(d => ({
+    filePath: d.filePath,
+    route: routeOf(d),
+    inbound: inbound.get(d.filePath)!.size,
+    outbound: edges.get(d.filePath)!.size,
+    depth: depths.get(d.filePath) ?? null,
+    authority: rank.get(d.filePath)! * pages.length,
+  }));
+  const routeByFile = new Map(graphPages.map(p => [p.filePath, p.route]));
+
+  const weakInbound = options.weakInbound ?? 3;
+  const maxDepth = options.maxDepth ?? 3;
+  const suggestions: LinkGraph["suggestions"] = [];
+  const prose = new Set(pages.filter(d => d.wordCount >= minWords && vectors.has(d.filePath)).map(d => d.filePath));
+  for (const p of graphPages) {
+    if (p.filePath === home || !prose.has(p.filePath)) continue;
+    if (p.inbound > weakInbound && p.depth !== null && p.depth <= maxDepth) continue;
+    const vector = vectors.get(p.filePath)!;
+    const sources = pages
+      .filter(d => prose.has(d.filePath) && d.filePath !== p.filePath && !edges.get(d.filePath)!.has(p.filePath))
+      .map(d => ({ route: routeByFile.get(d.filePath)!, similarity: cosineSimilarity(vector, vectors.get(d.filePath)!) }))
+      .filter(s => s.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity || a.route.localeCompare(b.route))
+      .slice(0, options.suggestions ?? 3);
+    if (sources.length) suggestions.push({ route: p.route, inbound: p.inbound, depth: p.depth, sources });
+  }
+
+  return {
+    pages: graphPages.sort((a, b) => a.authority - b.authority || a.route.localeCompare(b.route)),
+    orphans: graphPages.filter(p => p.inbound === 0 && p.filePath !== home).map(p => p.route).sort(),
+    unreachable: graphPages.filter(p => p.depth === null).map(p => p.route).sort(),
+    suggestions: suggestions.sort((a, b) => a.inbound - b.inbound || a.route.localeCompare(b.route)),
+  };
+}
+
+function termSequence(text: string | undefined): string[] {
+  return text ? toWords(text).map(normalizeTerm).filter(Boolean) : [];
+}
+
+function countPhrase(haystack: string[], phrase: string[]): number {
+  let n = 0;
+  for (let i = 0; i + phrase.length <= haystack.length; i++) {
+    if (phrase.every((t, j) => haystack[i + j] === t)) n++;
+  }
+  return n;
+}
+
+/** A keyword's weight in a TF-IDF vector: the mean score of its stems (0 when any is absent). */
+function keywordScore(vector: Map<string, number> | undefined, stems: string[]): number {
+  if (!vector || stems.some(s => !vector.has(s))) return 0;
+  return stems.reduce((sum, s) => sum + vector.get(s)!, 0) / stems.length;
+}
+
+/**
+ * Check each page's declared target keywords against what the page actually says and ranks
+ * for. Keywords and page text go through the same toWords + normalizeTerm pipeline, so
+ * "RPC endpoints" matches "rpc endpoint". Multi-word keywords must appear as a phrase.
+ */
+export function evaluateKeywordTargets(doc: DocumentMetrics, vectors: Map<string, Map<string, number>>, others: DocumentMetrics[]): KeywordTarget[] {
+  const vector = vectors.get(doc.filePath);
+  const body = doc.tokens.map(normalizeTerm).filter(Boolean);
+  const results: KeywordTarget[] = [];
+  for (const keyword of doc.targetKeywords) {
+    const stems = termSequence(keyword);
+    if (stems.length === 0) continue;
+    const within = (text: string | undefined) => countPhrase(termSequence(text), stems) > 0;
+    const score = keywordScore(vector, stems);
+    let rank: number | null = null;
+    if (score > 0) {
+      rank = 1;
+      for (const v of vector!.values()) if (v > score) rank++;
+    }
+    const outrankedBy = others
+      .filter(o => o.filePath !== doc.filePath)
+      .map(o => ({ filePath: o.filePath, score: keywordScore(vectors.get(o.filePath), stems) }))
+      .filter(o => o.score > score)
+      .sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath));
+    results.push({
+      keyword,
+      inTitle: within(doc.title),
+      inH1: doc.headings.h1.some(within),
+      inDescription: within(doc.description),
+      inFirstParagraph: within(doc.firstParagraph),
+      density: doc.wordCount ? (countPhrase(body, stems) / doc.wordCount) * 100 : 0,
+      rank,
+      outrankedBy,
+    });
+  }
+  return results;
+}
+
+function checkKeywordTargets(doc: DocumentMetrics, rule: ResolvedRule, ctx: CorpusContext): Finding[] {
+  const out: Finding[] = [];
+  for (const t of doc.keywordTargets ?? []) {
+    const missing = [
+      t.inTitle ? null : "title",
+      t.inH1 ? null : "H1",
+      t.inDescription ? null : "description",
+      t.inFirstParagraph ? null : "first paragraph",
+    ].filter(Boolean);
+    const finding = (aspect: string, message: string) => out.push({ message: `Target keyword "${t.keyword}" ${message}`, subject: `${t.keyword} ${aspect}` });
+    if (missing.length) finding("placement", `missing from ${missing.join(", ")}`);
+    if (rule.max !== undefined && t.density > rule.max) finding("density", `density ${t.density.toFixed(1)}% (max ${rule.max}%)`);
+    if (t.rank === null) finding("rank", "does not register among the page's terms");
+    else if (t.rank > (doc.topKeywords?.length ?? 0)) finding("rank", `ranks #${t.rank} on the page, outside its top keywords`);
+    if (t.outrankedBy.length) {
+      const names = t.outrankedBy.slice(0, 3).map(o => routeKeysForFile(path.relative(ctx.rootDir, o.filePath))[0]);
+      finding("outranked", `ranks higher on ${t.outrankedBy.length} other page(s): ${names.join(", ")}${t.outrankedBy.length > 3 ? ", ..." : ""}`);
+    }
+  }
+  return out;
+}
+
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [t, w] of a) {
+    normA += w * w;
+    const wb = b.get(t);
+    if (wb) dot += w * wb;
+  }
+  for (const w of b.values()) normB += w * w;
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/** Overlapping k-word shingles; punctuation and case are ignored, stopwords are kept. */
+export function shingles(text: string, k = 3): Set<string> {
+  const words = text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").split(/\s+/).filter(Boolean);
+  const out = new Set<string>();
+  if (words.length < k) {
+    if (words.length) out.add(words.join(" "));
+    return out;
+  }
+  for (let i = 0; i <= words.length - k; i++) out.add(words.slice(i, i + k).join(" "));
+  return out;
+}
+
+export function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let inter = 0;
+  for (const x of a) if (b.has(x)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+function findSimilarPages(
+  documents: DocumentMetrics[],
+  vectors: Map<string, Map<string, number>>,
+  canonical: Map<string, string>,
+  threshold: number,
+  minWords: number,
+): SimilarPagePair[] {
+  const docs = documents.filter(d => d.wordCount >= minWords && vectors.has(d.filePath));
+  const pairs: SimilarPagePair[] = [];
+  for (let i = 0; i < docs.length; i++) {
+    const va = vectors.get(docs[i].filePath)!;
+    for (let j = i + 1; j < docs.length; j++) {
+      const vb = vectors.get(docs[j].filePath)!;
+      const similarity = cosineSimilarity(va, vb);
+      if (similarity < threshold) continue;
+      // Terms contributing most to the dot product are the ones both pages compete on
+      const sharedTerms = Array.from(va)
+        .filter(([t]) => vb.has(t))
+        .map(([t, w]) => ({ t, contribution: w * vb.get(t)! }))
+        .sort((x, y) => y.contribution - x.contribution)
+        .slice(0, 6)
+        .map(({ t }) => canonical.get(t) || t);
+      pairs.push({ files: [docs[i].filePath, docs[j].filePath], similarity, sharedTerms });
+    }
+  }
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Group pages whose descriptions are near-duplicates. Clusters rather than pairs,
+ * so one boilerplate description shared by N pages is reported once, not N² times.
+ */
+function findNearDuplicateDescriptions(documents: DocumentMetrics[], threshold: number, k: number): DescriptionCluster[] {
+  const docs = documents.filter(d => d.description);
+  const sets = docs.map(d => shingles(d.description!, k));
+  const parent = docs.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const best = new Map<number, number>();
+  for (let i = 0; i < docs.length; i++) {
+    for (let j = i + 1; j < docs.length; j++) {
+      const sim = jaccard(sets[i], sets[j]);
+      if (sim < threshold) continue;
+      const ri = find(i);
+      const rj = find(j);
+      const top = Math.max(sim, best.get(ri) ?? 0, best.get(rj) ?? 0);
+      parent[rj] = ri;
+      best.set(ri, top);
+    }
+  }
+  const groups = new Map<number, number[]>();
+  for (let i = 0; i < docs.length; i++) {
+    const r = find(i);
+    groups.set(r, [...(groups.get(r) || []), i]);
+  }
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      files: members.map(i => docs[i].filePath),
+      descriptions: Array.from(new Set(members.map(i => docs[i].description!))),
+      similarity: best.get(root) ?? 0,
+    }))
+    .sort((a, b) => b.files.length - a.files.length || b.similarity - a.similarity);
+}
+
+type CacheFile = {
+  version: string;
+  entries: Record<string, { hash: string; metrics: DocumentMetrics }>;
+};
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
 }
 
-export function canonicalizeCorpus(allDocs: { id: string; terms: string[] }[]) {
-  const surfaceMap = new Map<string, Map<string, number>>();
-  for (const d of allDocs) {
-    for (const surf of d.terms) {
-      const norm = normalizeTerm(surf);
-      if (!norm) continue;
-      let m = surfaceMap.get(norm);
-      if (!m) { m = new Map(); surfaceMap.set(norm, m); }
-      m.set(surf, (m.get(surf) || 0) + 1);
-    }
+/** The audit's source files: this script and the helper modules it imports from scripts/. */
+export function auditSourceFiles(): string[] {
+  return [import.meta.url, ...["./count-words.ts", "./normalize-term.ts"].map(m => new URL(m, import.meta.url).href)].map(u => fileURLToPath(u));
+}
+
+/** Anything that changes what analyzeFile() returns for identical input must feed this. */
+async function computeCacheVersion(rootDir: string, config: SeoAuditConfig, checks: Record<string, RuleDefinition>): Promise<string> {
+  let scriptSource = "";
+  try {
+    scriptSource = (await Promise.all(auditSourceFiles().map(f => fs.readFile(f, "utf8")))).join("\u0000");
+  } catch {
+    // Unknown script version: fall back to a per-run key so nothing stale is reused
+    scriptSource = String(Date.now());
   }
-  const canonical = new Map<string, string>();
-  for (const [norm, m] of surfaceMap) {
-    let best = "";
-    let bestCount = 0;
-    for (const [surf, cnt] of m) {
-      if (cnt > bestCount || (cnt === bestCount && (best === "" || surf.length < best.length))) {
-        best = surf;
-        bestCount = cnt;
-      }
-    }
-    canonical.set(norm, best || norm);
+  // Extra checks come from the caller, so their source is part of the key too
+  const extra = Object.entries(checks).map(([id, def]) => [id, def.defaults, String(def.check), String(def.checkCorpus)]);
+  return sha256(JSON.stringify({ script: sha256(scriptSource), config, rootDir, checks: extra }));
+}
+
+async function readCache(cacheFile: string, version: string): Promise<CacheFile> {
+  try {
+    const cache = JSON.parse(await fs.readFile(cacheFile, "utf8")) as CacheFile;
+    if (cache.version === version && cache.entries) return cache;
+  } catch {
+    // Missing or corrupt cache: start cold
+  }
+  return { version, entries: {} };
+}
+
+async function writeCache(cacheFile: string, cache: CacheFile) {
+  try {
+    await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+    await fs.writeFile(cacheFile, JSON.stringify(cache), "utf8");
+  } catch (err) {
+    console.error("Failed to write audit cache:", err instanceof Error ? err.message : err);
   }
-  return canonical;
 }
 
-async function generateReport(rootDir: string): Promise<Report> {
-  const files = await walkFiles(rootDir);
-  const documents: DocumentMetrics[] = [];
+export type AuditOptions = {
+  /** Directory to audit: a build output such as ./dist, or sources under ./src */
+  rootDir: string;
+  config?: SeoAuditConfig;
+  /** Per-file metrics cache; null (the default) analyzes every file */
+  cacheFile?: string | null;
+  /** Sources behind built pages, for frontmatter keywords and sentence line numbers */
+  sourceRoot?: string | null;
+  /** Extra rules keyed by rule ID; config severities and overrides apply to them like built-ins */
+  checks?: Record<string, RuleDefinition>;
+};
+
+/** Run the audit. A bare string is shorthand for `{ rootDir }`. */
+export async function generateReport(options: AuditOptions | string): Promise<Report> {
+  const { config = {}, cacheFile = null, sourceRoot = null, checks = {} } = typeof options === "string" ? {} : options;
+  const rootDir = path.resolve(typeof options === "string" ? options : options.rootDir);
+  const clash = Object.keys(checks).filter(id => id in RULES);
+  if (clash.length) throw new Error(`Custom checks reuse built-in rule IDs: ${clash.join(", ")}`);
+  const definitions: Record<string, RuleDefinition> = { ...RULES, ...checks };
+  // A misspelled rule ID would otherwise configure nothing without a word
+  const unknown = unknownRuleIds(config, definitions);
+  if (unknown.length) console.error(`seo-audit config: unknown rule ID(s) ignored: ${unknown.join(", ")}`);
+  const walked = await walkFiles(rootDir);
+  // In built output .json files are data endpoints (e.g. /search-index.json), not pages
+  const files = walked.some(f => f.endsWith(".html")) ? walked.filter(f => path.extname(f).toLowerCase() !== ".json") : walked;
+  const version = cacheFile ? await computeCacheVersion(rootDir, config, checks) : "";
+  const cache = cacheFile ? await readCache(cacheFile, version) : null;
+  const nextCache: CacheFile = { version, entries: {} };
+  let reused = 0;
+  // Indexed by file so document order doesn't depend on which worker finishes first
+  const analyzed: Array<DocumentMetrics | undefined> = new Array(files.length);
   // Limit concurrency to avoid overwhelming the system
   const concurrency = 8;
   let i = 0;
@@ -703,32 +2939,44 @@ async function generateReport(rootDir: string): Promise<Report> {
       const idx = i++;
       const f = files[idx];
       try {
-        const doc = await analyzeFile(f, rootDir);
-        documents.push(doc);
+        if (!cache) {
+          analyzed[idx] = await analyzeFile(f, rootDir, config, definitions);
+          continue;
+        }
+        const key = path.relative(rootDir, f).replace(/\\/g, "/");
+        const hash = sha256(await fs.readFile(f));
+        const hit = cache.entries[key];
+        if (hit && hit.hash === hash) {
+          analyzed[idx] = hit.metrics;
+          reused++;
+        } else {
+          analyzed[idx] = await analyzeFile(f, rootDir, config, definitions);
+        }
+        nextCache.entries[key] = { hash, metrics: analyzed[idx]! };
       } catch (err) {
         console.error(`Failed to analyze ${f}:`, err instanceof Error ? err.message : err);
       }
     }
   }
   await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, () => worker()));
-
-  const pagesMissingTitle = documents.filter(d => !d.title).map(d => d.filePath);
-  const pagesMissingDescription = documents.filter(d => !d.description).map(d => d.filePath);
-  const pagesMissingH1 = documents.filter(d => d.headings.h1.length === 0).map(d => d.filePath);
-
-  // Helper: treat certain JSON data directories as data-only (cards) and
-  // exclude them from missing-title/description/H1 warnings because they
-  // don't correspond to standalone pages with their own <title>/<meta>.
-  function isDataOnlyJson(p: string) {
-    const rel = path.relative(rootDir, p).replace(/\\/g, "/");
-    if (!rel) return false;
-    if (!rel.endsWith(".json")) return false;
-    return rel.startsWith("competencies/") || rel.startsWith("technologies/");
+  const documents = analyzed.filter((d): d is DocumentMetrics => d !== undefined);
+  if (cacheFile) {
+    // topKeywords are corpus-dependent and get recomputed below; strip them before persisting
+    for (const entry of Object.values(nextCache.entries)) {
+      const { topKeywords: _topKeywords, ...metrics } = entry.metrics;
+      entry.metrics = metrics;
+    }
+    await writeCache(cacheFile, nextCache);
+    console.error(`seo-audit cache: ${reused} reused, ${documents.length - reused} analyzed`);
   }
 
-  const filteredPagesMissingTitle = pagesMissingTitle.filter(p => !isDataOnlyJson(p));
-  const filteredPagesMissingDescription = pagesMissingDescription.filter(p => !isDataOnlyJson(p));
-  const filteredPagesMissingH1 = pagesMissingH1.filter(p => !isDataOnlyJson(p));
+  // Derived from rule findings so that ignores/"off" overrides (e.g. data-only JSON
+  // cards) drop pages from these lists too
+  const pagesWithRule = (ruleId: string) =>
+    documents.filter(d => d.warnings.some(w => w.ruleId === ruleId)).map(d => d.filePath);
+  const pagesMissingTitle = pagesWithRule("title-missing");
+  const pagesMissingDescription = pagesWithRule("description-missing");
+  const pagesMissingH1 = pagesWithRule("h1-missing");
 
   const titleMap = new Map<string, string[]>();
   for (const d of documents) {
@@ -750,58 +2998,306 @@ async function generateReport(rootDir: string): Promise<Report> {
   const vocab = new Set<string>();
   for (const d of documents) for (const t of d.tokens) vocab.add(t);
 
+  const routes = await buildRouteIndex(rootDir);
+  const brokenLinks = findBrokenLinks(documents, rootDir, routes);
+  const crawlability = await auditCrawlability(documents, rootDir, routes);
+  const performance = await measurePerformance(documents, rootDir, routes);
+  const pageWeights = new Map((performance?.pages ?? []).map(p => [p.filePath, p]));
+  const budgetsKb = config.performance?.budgetsKb ?? { total: 1000 };
+  const images = new Map<string, ImageInfo | null>();
+  for (const d of documents) {
+    for (const url of socialImageUrls(d)) {
+      const pathname = sitePathFor(url, d, rootDir);
+      const file = pathname ? routes.get(pathname) : undefined;
+      if (file && !images.has(file)) images.set(file, await probeImage(file));
+    }
+  }
+
+  // Compute canonical surface forms and per-document vectors using normalized terms
+  const canonical = canonicalizeCorpus(weightedUnigrams);
+  const vectors = tfidfVectors(weightedUnigrams);
+  for (const d of documents) {
+    const scored = Array.from(vectors.get(d.filePath)!, ([t, tfidf]) => ({ term: canonical.get(t) || t, tfidf }));
+    scored.sort((a, b) => b.tfidf - a.tfidf);
+    d.topKeywords = scored.slice(0, 12);
+  }
+
+  const sim = config.similarity ?? {};
+  const similarPages = findSimilarPages(documents, vectors, canonical, sim.pageThreshold ?? 0.5, sim.minWords ?? 150);
+  const nearDuplicateDescriptions = findNearDuplicateDescriptions(documents, sim.descriptionThreshold ?? 0.5, sim.shingleSize ?? 3);
+  const linkGraph = analyzeLinkGraph(documents, rootDir, routes, vectors, config.linkGraph ?? {}, sim.minWords ?? 150);
+
+  // Built pages don't carry frontmatter: read target keywords from the entry they were built
+  // from, and point their hardest sentences at the source lines
+  if (sourceRoot) {
+    const sourceFiles = (await walkFiles(sourceRoot)).map(f => path.relative(sourceRoot, f));
+    for (const d of documents) {
+      if (path.extname(d.filePath).toLowerCase() !== ".html") continue;
+      const source = sourceFileForRoute(routeKeysForFile(path.relative(rootDir, d.filePath))[0], sourceFiles);
+      if (!source || !/\.mdx?$/.test(source)) continue;
+      const sourceText = await fs.readFile(path.join(sourceRoot, source), "utf8");
+      d.targetKeywords = readFrontmatterList(sourceText, "targetKeywords");
+      for (const s of d.hardSentences) {
+        const line = locateSentence(sourceText, s.text);
+        if (line === null) continue;
+        s.source = path.relative(process.cwd(), path.join(sourceRoot, source));
+        s.line = line;
+      }
+    }
+  }
+  for (const d of documents) {
+    if (d.targetKeywords.length) d.keywordTargets = evaluateKeywordTargets(d, vectors, documents);
+  }
+
+  // Corpus-phase rules run on every run, cached or not, since they depend on other files or on
+  // the source mapping above
+  for (const d of documents) {
+    d.warnings.push(...evaluateRules(d, rulesForDocument(d, rootDir, config, definitions), definitions, { rootDir, routes, images, pageWeights, budgetsKb }));
+  }
+  const accessibility: Record<string, string[]> = {};
+  for (const d of documents) {
+    for (const ruleId of new Set(d.warnings.map(w => w.ruleId).filter(id => id.startsWith("a11y-")))) {
+      (accessibility[ruleId] ??= []).push(d.filePath);
+    }
+  }
+
   const summary: CorpusSummary = {
     totalDocuments: documents.length,
     vocabularySize: vocab.size,
     topUnigrams,
     topBigrams,
     topTrigrams,
-    pagesMissingTitle: filteredPagesMissingTitle,
-    pagesMissingDescription: filteredPagesMissingDescription,
-    pagesMissingH1: filteredPagesMissingH1,
+    pagesMissingTitle,
+    pagesMissingDescription,
+    pagesMissingH1,
     duplicateTitles,
+    brokenLinks,
+    similarPages,
+    nearDuplicateDescriptions,
+    crawlability,
+    linkGraph,
+    performance,
+    accessibility,
   };
 
-  // Compute canonical surface forms and global IDF using normalized terms
-  const minDocFreq = 2;
-  const docCount = weightedUnigrams.length;
-  const termDocFreq = new Map<string, number>();
-  for (const d of weightedUnigrams) {
-    const unique = new Set(d.terms.map(normalizeTerm).filter(Boolean));
-    for (const t of unique) termDocFreq.set(t, (termDocFreq.get(t) || 0) + 1);
-  }
-  const globalIdf = new Map<string, number>();
-  for (const [t, df] of termDocFreq) {
-    if (df < minDocFreq) continue;
-    globalIdf.set(t, Math.log((docCount + 1) / (df + 1)) + 1);
-  }
+  return {
+    generatedAt: new Date().toISOString(),
+    rootDir,
+    documents,
+    summary,
+  };
+}
 
-  const canonical = canonicalizeCorpus(weightedUnigrams);
-  for (const d of documents) {
-    const tf = new Map<string, number>();
-    for (const t0 of d.tfidfTerms) {
-      const t = normalizeTerm(t0);
-      if (!t) continue;
-      tf.set(t, (tf.get(t) || 0) + 1);
+/**
+ * Diff two reports. Pages are keyed by their path relative to each report's rootDir,
+ * so a baseline produced on another machine (or in CI) still lines up.
+ */
+export function compareReports(
+  current: Report,
+  baseline: Report,
+  thresholds: { fleschDrop: number; wordCountDropRatio: number } = DEFAULT_REGRESSION_THRESHOLDS,
+): BaselineComparison {
+  const rel = (report: Report, p: string) => path.relative(report.rootDir, p).replace(/\\/g, "/");
+  const relAll = (report: Report, arr: string[] | undefined) => new Set((arr ?? []).map(p => rel(report, p)));
+  const warningKeys = (report: Report) => {
+    const keys = new Map<string, PageWarning>();
+    for (const d of report.documents) {
+      const page = rel(report, d.filePath);
+      for (const w of d.warnings as Array<Warning | string>) {
+        // Reports written before rule IDs existed stored plain strings
+        const warning: Warning = typeof w === "string" ? { ruleId: "legacy", severity: "warn", message: w } : w;
+        // Rules without a subject name what they found in the message itself
+        const key = `${page}\u0000${warning.ruleId}\u0000${warning.subject ?? warning.message}`;
+        let unique = key;
+        for (let n = 2; keys.has(unique); n++) unique = `${key}\u0000${n}`;
+        keys.set(unique, { page, ...warning });
+      }
     }
-    const scored: Array<{ term: string; tfidf: number }> = [];
-    for (const [t, f] of tf) {
-      const idf = globalIdf.get(t) || 0;
-      if (idf === 0) continue;
-      const score = (1 + Math.log(f)) * idf; // sublinear tf * idf
-      const surf = canonical.get(t) || t;
-      scored.push({ term: surf, tfidf: score });
+    return keys;
+  };
+
+  const beforeWarnings = warningKeys(baseline);
+  const afterWarnings = warningKeys(current);
+  const newWarnings = Array.from(afterWarnings).filter(([k]) => !beforeWarnings.has(k)).map(([, v]) => v);
+  const resolvedWarnings = Array.from(beforeWarnings).filter(([k]) => !afterWarnings.has(k)).map(([, v]) => v);
+
+  const newlyMissing = (key: "pagesMissingTitle" | "pagesMissingDescription" | "pagesMissingH1") => {
+    const before = relAll(baseline, baseline.summary[key]);
+    return Array.from(relAll(current, current.summary[key])).filter(p => !before.has(p));
+  };
+
+  const beforeDupTitles = new Set((baseline.summary.duplicateTitles ?? []).map(d => d.title));
+  const newDuplicateTitles = current.summary.duplicateTitles
+    .filter(d => !beforeDupTitles.has(d.title))
+    .map(d => ({ title: d.title, files: d.files.map(f => rel(current, f)) }));
+
+  const linkKey = (page: string, href: string) => `${page}\u0000${href}`;
+  const beforeLinks = new Set((baseline.summary.brokenLinks ?? []).map(b => linkKey(rel(baseline, b.filePath), b.href)));
+  const newBrokenLinks = current.summary.brokenLinks
+    .map(b => ({ page: rel(current, b.filePath), href: b.href, reason: b.reason }))
+    .filter(b => !beforeLinks.has(linkKey(b.page, b.href)));
+
+  const beforeDocs = new Map(baseline.documents.map(d => [rel(baseline, d.filePath), d]));
+  const metricRegressions: MetricRegression[] = [];
+  for (const d of current.documents) {
+    const page = rel(current, d.filePath);
+    const prev = beforeDocs.get(page);
+    if (!prev) continue;
+    if (prev.fleschReadingEase - d.fleschReadingEase > thresholds.fleschDrop) {
+      metricRegressions.push({ page, metric: "fleschReadingEase", before: prev.fleschReadingEase, after: d.fleschReadingEase });
+    }
+    if (prev.wordCount > 0 && (prev.wordCount - d.wordCount) / prev.wordCount > thresholds.wordCountDropRatio) {
+      metricRegressions.push({ page, metric: "wordCount", before: prev.wordCount, after: d.wordCount });
     }
-    scored.sort((a, b) => b.tfidf - a.tfidf);
-    d.topKeywords = scored.slice(0, 12);
   }
 
+  const newlyMissingTitle = newlyMissing("pagesMissingTitle");
+  const newlyMissingDescription = newlyMissing("pagesMissingDescription");
+  const newlyMissingH1 = newlyMissing("pagesMissingH1");
+  // A newly missing title/description/H1 is usually also a new *-missing warning; count it once
+  const uncounted = (pages: string[], ruleId: string) =>
+    pages.filter(p => !newWarnings.some(w => w.page === p && w.ruleId === ruleId)).length;
+  const regressionCount =
+    newWarnings.length +
+    uncounted(newlyMissingTitle, "title-missing") +
+    uncounted(newlyMissingDescription, "description-missing") +
+    uncounted(newlyMissingH1, "h1-missing") +
+    newDuplicateTitles.length +
+    newBrokenLinks.length +
+    metricRegressions.length;
+
   return {
-    generatedAt: new Date().toISOString(),
-    rootDir,
-    documents,
-    summary,
+    baselineGeneratedAt: baseline.generatedAt,
+    newWarnings,
+    resolvedWarnings,
+    newlyMissingTitle,
+    newlyMissingDescription,
+    newlyMissingH1,
+    newDuplicateTitles,
+    newBrokenLinks,
+    metricRegressions,
+    regressionCount,
+  };
+}
+
+function formatPageWarning(w: PageWarning): string {
+  return `${w.page}: [${w.severity}] ${w.ruleId} — ${w.message}`;
+}
+
+function countFindings(report: Report): Array<{ ruleId: string; severity: Severity; count: number }> {
+  const counts = new Map<string, { ruleId: string; severity: Severity; count: number }>();
+  for (const d of report.documents) {
+    for (const w of d.warnings) {
+      const key = `${w.ruleId}\u0000${w.severity}`;
+      const entry = counts.get(key) ?? { ruleId: w.ruleId, severity: w.severity, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+  const order: Record<Severity, number> = { error: 0, warn: 1, info: 2 };
+  return Array.from(counts.values()).sort((a, b) => order[a.severity] - order[b.severity] || b.count - a.count);
+}
+
+function printComparison(comparison: BaselineComparison) {
+  console.log("");
+  console.log(`Changes since baseline (${comparison.baselineGeneratedAt})`);
+  console.log("==============================");
+  const list = (label: string, arr: string[]) => {
+    if (!arr.length) return;
+    console.log(`${label} (${arr.length}):`);
+    for (const line of arr) console.log(`  - ${line}`);
+  };
+  list("New warnings", comparison.newWarnings.map(formatPageWarning));
+  list("Resolved warnings", comparison.resolvedWarnings.map(formatPageWarning));
+  list("Newly missing <title>", comparison.newlyMissingTitle);
+  list("Newly missing meta description", comparison.newlyMissingDescription);
+  list("Newly missing H1", comparison.newlyMissingH1);
+  list("New duplicate titles", comparison.newDuplicateTitles.map(d => `${d.title} (${d.files.join(", ")})`));
+  list("New broken links", comparison.newBrokenLinks.map(b => `${b.page} → ${b.href} (${b.reason})`));
+  list("Metric regressions", comparison.metricRegressions.map(r => `${r.page}: ${r.metric} ${r.before.toFixed(1)} → ${r.after.toFixed(1)}`));
+  console.log(comparison.regressionCount ? `Regressions: ${comparison.regressionCount}` : "No regressions.");
+}
+
+/**
+ * Compact terminal view for one watch cycle: each changed file's scores, keywords and findings,
+ * then whatever moved elsewhere in the corpus (duplicate titles, broken links, other pages' warnings).
+ */
+export function formatWatchUpdate(previous: Report, current: Report, changed: string[]): string[] {
+  const lines: string[] = [];
+  const rel = (f: string) => path.relative(current.rootDir, f).replace(/\\/g, "/");
+  const changedPages = new Set(changed.map(rel));
+  for (const file of changed) {
+    const d = current.documents.find(doc => doc.filePath === file);
+    if (!d) {
+      lines.push(`✗ ${rel(file)} removed`);
+      continue;
+    }
+    lines.push(
+      `▸ ${rel(file)} — ${d.wordCount} words · Flesch ${d.fleschReadingEase.toFixed(1)} · FK ${d.fleschKincaidGrade.toFixed(1)}` +
+        ` · Fog ${d.gunningFog.toFixed(1)} · SMOG ${d.smogIndex.toFixed(1)} · CLI ${d.colemanLiau.toFixed(1)}`,
+    );
+    const keywords = (d.topKeywords ?? []).slice(0, 8).map(k => k.term);
+    if (keywords.length) lines.push(`    keywords: ${keywords.join(", ")}`);
+    if (d.warnings.length === 0) lines.push("    no findings");
+    for (const w of d.warnings) lines.push(`    ${w.severity.padEnd(5)} ${w.ruleId.padEnd(22)} ${w.message}`);
+  }
+
+  const comparison = compareReports(current, previous);
+  const currentDupTitles = new Set(current.summary.duplicateTitles.map(d => d.title));
+  const corpus = [
+    ...comparison.newDuplicateTitles.map(d => `+ duplicate title "${d.title}" (${d.files.join(", ")})`),
+    ...previous.summary.duplicateTitles.filter(d => !currentDupTitles.has(d.title)).map(d => `- duplicate title "${d.title}"`),
+    ...comparison.newBrokenLinks.map(b => `+ broken link ${b.page} → ${b.href} (${b.reason})`),
+    // The changed files' own findings are listed above in full
+    ...comparison.newWarnings.filter(w => !changedPages.has(w.page)).map(w => `+ ${formatPageWarning(w)}`),
+    ...comparison.resolvedWarnings.filter(w => !changedPages.has(w.page)).map(w => `- ${formatPageWarning(w)}`),
+  ];
+  if (corpus.length) {
+    lines.push(`  corpus (${corpus.length} change${corpus.length === 1 ? "" : "s"}):`);
+    for (const line of corpus.slice(0, 15)) lines.push(`    ${line}`);
+    if (corpus.length > 15) lines.push(`    ...and ${corpus.length - 15} more`);
+  }
+  return lines;
+}
+
+const WATCHED_EXTENSIONS = new Set([".md", ".mdx", ".json"]);
+
+/** Re-audit rootDir on every content save until the process is stopped. */
+async function watchContent(rootDir: string, config: SeoAuditConfig, cacheFile: string): Promise<void> {
+  let report = await generateReport({ rootDir, config, cacheFile });
+  console.log(`Watching ${path.relative(process.cwd(), rootDir) || "."} (${report.documents.length} files). Ctrl+C to stop.`);
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let queue = Promise.resolve();
+  const rerun = async () => {
+    const changed = Array.from(pending);
+    pending.clear();
+    const next = await generateReport({ rootDir, config, cacheFile });
+    console.log(`\n[${new Date().toLocaleTimeString()}]`);
+    for (const line of formatWatchUpdate(report, next, changed)) console.log(line);
+    report = next;
   };
+  for await (const { filename } of fs.watch(rootDir, { recursive: true })) {
+    if (!filename || !WATCHED_EXTENSIONS.has(path.extname(filename).toLowerCase())) continue;
+    pending.add(path.join(rootDir, filename));
+    // Editors often write a file in several steps; wait for the burst to settle
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      queue = queue.then(rerun).catch(err => console.error("Audit failed:", err instanceof Error ? err.message : err));
+    }, 150);
+  }
+}
+
+/** Every page's hardest sentences, worst first. */
+function hardestAcrossPages(report: Report): Array<{ doc: DocumentMetrics; sentence: HardSentence }> {
+  return report.documents
+    .flatMap(doc => (doc.hardSentences ?? []).map(sentence => ({ doc, sentence })))
+    .sort((a, b) => b.sentence.grade - a.sentence.grade);
+}
+
+function sentenceLocation(doc: DocumentMetrics, sentence: HardSentence): string {
+  const file = sentence.source ?? path.relative(process.cwd(), doc.filePath);
+  return sentence.line ? `${file}:${sentence.line}` : file;
 }
 
 function printHumanSummary(report: Report) {
@@ -845,6 +3341,12 @@ function printHumanSummary(report: Report) {
       for (const f of arr) console.log(`  - ${path.relative(process.cwd(), f)}`);
     }
   };
+  const findings = countFindings(report);
+  if (findings.length) {
+    console.log("");
+    console.log("Findings by rule:");
+    for (const f of findings) console.log(`  ${f.severity.padEnd(6)} ${f.ruleId.padEnd(24)} ${f.count}`);
+  }
   warn("Pages missing <title>", summary.pagesMissingTitle);
   warn("Pages missing meta description", summary.pagesMissingDescription);
   warn("Pages missing H1", summary.pagesMissingH1);
@@ -856,6 +3358,106 @@ function printHumanSummary(report: Report) {
       for (const f of dup.files) console.log(`      - ${path.relative(process.cwd(), f)}`);
     }
   }
+  if (summary.brokenLinks.length) {
+    console.log("");
+    console.log(`Broken internal links (${summary.brokenLinks.length}):`);
+    for (const b of summary.brokenLinks) {
+      console.log(`  - ${path.relative(process.cwd(), b.filePath)} → ${b.href} (${b.reason})`);
+    }
+  }
+  const crawl = summary.crawlability;
+  if (crawl) {
+    console.log("");
+    console.log(`Crawlability (${crawl.sitemapUrlCount} sitemap URLs in ${crawl.sitemaps.join(", ") || "no sitemap"}):`);
+    const list = (label: string, arr: string[]) => {
+      if (!arr.length) return;
+      console.log(`  ${label} (${arr.length}):`);
+      for (const u of arr) console.log(`    - ${u}`);
+    };
+    list("Pages missing from sitemap", crawl.missingFromSitemap);
+    list("Sitemap URLs with no built page", crawl.sitemapUrlsWithoutPage);
+    list("noindex pages listed in sitemap", crawl.noindexInSitemap);
+    list("Blocked by robots.txt", crawl.blockedByRobots.map(b => `${b.url} (${b.rule})`));
+  }
+  const perf = summary.performance;
+  if (perf) {
+    console.log("");
+    console.log("Performance (heaviest routes):");
+    for (const p of perf.pages.slice(0, 10)) {
+      const parts = (["html", "css", "js", "font", "image"] as const).filter(k => p.bytes[k]).map(k => `${k} ${formatBytes(p.bytes[k])}`);
+      console.log(`  ${formatBytes(p.bytes.total).padStart(9)}  ${p.route}  (${parts.join(", ")}; ${p.requests} requests)`);
+    }
+    console.log("  Heaviest assets:");
+    for (const a of perf.heaviestAssets.slice(0, 10)) console.log(`    ${formatBytes(a.bytes).padStart(9)}  ${a.file}  (${a.pages} page${a.pages === 1 ? "" : "s"})`);
+    if (perf.unoptimizedAssets.length) {
+      console.log(`  Unoptimized assets (${perf.unoptimizedAssets.length}):`);
+      for (const a of perf.unoptimizedAssets) console.log(`    ${formatBytes(a.bytes).padStart(9)}  ${a.file}: ${a.reason}`);
+    }
+    console.log("  By folder:");
+    for (const d of perf.assetDirectories) console.log(`    ${formatBytes(d.bytes).padStart(9)}  ${d.dir}/ (${d.files} files)`);
+  }
+  const a11y = Object.entries(summary.accessibility ?? {});
+  if (a11y.length) {
+    console.log("");
+    console.log("Accessibility:");
+    for (const [ruleId, files] of a11y) {
+      console.log(`  ${ruleId} (${files.length} page${files.length === 1 ? "" : "s"})`);
+      for (const f of files.slice(0, 5)) console.log(`    - ${path.relative(process.cwd(), f)}`);
+      if (files.length > 5) console.log(`    - ...and ${files.length - 5} more`);
+    }
+  }
+  const targeted = report.documents.filter(d => d.keywordTargets?.length);
+  if (targeted.length) {
+    console.log("");
+    console.log("Target keywords (title/H1/description/first paragraph, density, rank):");
+    const mark = (b: boolean) => (b ? "✓" : "✗");
+    for (const d of targeted) {
+      console.log(`  - ${d.routeHint || d.filePath}`);
+      for (const t of d.keywordTargets!) {
+        console.log(`      ${t.keyword.padEnd(24)} ${mark(t.inTitle)}${mark(t.inH1)}${mark(t.inDescription)}${mark(t.inFirstParagraph)}  ${t.density.toFixed(2)}%  #${t.rank ?? "-"}${t.outrankedBy.length ? `  (${t.outrankedBy.length} page(s) rank higher)` : ""}`);
+      }
+    }
+  }
+  const hardest = hardestAcrossPages(report).slice(0, 10);
+  if (hardest.length) {
+    console.log("");
+    console.log("Hardest sentences (Flesch-Kincaid grade):");
+    for (const { doc, sentence } of hardest) {
+      console.log(`  ${sentence.grade.toFixed(1).padStart(5)}  ${sentenceLocation(doc, sentence)}`);
+      console.log(`         ${sentence.text.length > 120 ? sentence.text.slice(0, 120) + "…" : sentence.text}`);
+    }
+  }
+  const graph = summary.linkGraph;
+  if (graph) {
+    console.log("");
+    console.log(`Internal link graph (${graph.pages.length} pages):`);
+    if (graph.orphans.length) console.log(`  Orphans (no inbound links): ${graph.orphans.join(", ")}`);
+    if (graph.unreachable.length) console.log(`  Unreachable from /: ${graph.unreachable.join(", ")}`);
+    console.log("  Lowest authority:");
+    for (const p of graph.pages.slice(0, 10)) {
+      console.log(`    ${p.authority.toFixed(2).padStart(6)}  ${p.route}  (inbound ${p.inbound}, depth ${p.depth ?? "∞"})`);
+    }
+    for (const s of graph.suggestions) {
+      console.log(`  Link to ${s.route} from: ${s.sources.map(x => `${x.route} (${x.similarity.toFixed(2)})`).join(", ")}`);
+    }
+  }
+  if (summary.similarPages.length) {
+    console.log("");
+    console.log(`Competing pages (${summary.similarPages.length}):`);
+    for (const p of summary.similarPages) {
+      console.log(`  • ${p.similarity.toFixed(3)}  ${p.files.map(f => path.relative(process.cwd(), f)).join("  ↔  ")}`);
+      console.log(`      shared: ${p.sharedTerms.join(", ")}`);
+    }
+  }
+  if (summary.nearDuplicateDescriptions.length) {
+    console.log("");
+    console.log(`Near-duplicate descriptions (${summary.nearDuplicateDescriptions.length}):`);
+    for (const c of summary.nearDuplicateDescriptions) {
+      console.log(`  • ${c.files.length} pages, similarity ${c.similarity.toFixed(2)}: "${c.descriptions[0]}"`);
+      for (const f of c.files.slice(0, 5)) console.log(`      - ${path.relative(process.cwd(), f)}`);
+      if (c.files.length > 5) console.log(`      - ...and ${c.files.length - 5} more`);
+    }
+  }
 }
 
 function renderMarkdown(report: Report): string {
@@ -896,6 +3498,16 @@ function renderMarkdown(report: Report): string {
     if (arr.length > 200) lines.push(`- ...and ${arr.length - 200} more`);
   };
 
+  const findings = countFindings(report);
+  lines.push(`\n## Findings by rule\n`);
+  if (findings.length === 0) {
+    lines.push("None\n");
+  } else {
+    lines.push("| Rule | Severity | Findings |");
+    lines.push("|---|---|---:|");
+    for (const f of findings) lines.push(`| ${f.ruleId} | ${f.severity} | ${f.count} |`);
+  }
+
   warnBlock("Pages missing <title>", summary.pagesMissingTitle);
   warnBlock("Pages missing meta description", summary.pagesMissingDescription);
   warnBlock("Pages missing H1", summary.pagesMissingH1);
@@ -908,47 +3520,466 @@ function renderMarkdown(report: Report): string {
     }
   }
 
+  lines.push(`\n## Broken internal links (${summary.brokenLinks.length})\n`);
+  if (summary.brokenLinks.length === 0) {
+    lines.push("None\n");
+  } else {
+    lines.push("| Page | Link | Reason |");
+    lines.push("|---|---|---|");
+    for (const b of summary.brokenLinks.slice(0, 200)) {
+      lines.push(`| ${path.relative(process.cwd(), b.filePath)} | \`${b.href}\` | ${b.reason} |`);
+    }
+    if (summary.brokenLinks.length > 200) lines.push(`\n- ...and ${summary.brokenLinks.length - 200} more`);
+  }
+
+  const crawl = summary.crawlability;
+  if (crawl) {
+    lines.push(`\n## Crawlability\n`);
+    lines.push(`Sitemaps: ${crawl.sitemaps.map(s => `\`${s}\``).join(", ") || "none found"} (${crawl.sitemapUrlCount} URLs)\n`);
+    const section = (label: string, arr: string[]) => {
+      lines.push(`### ${label} (${arr.length})\n`);
+      if (arr.length === 0) lines.push("None\n");
+      else {
+        for (const u of arr.slice(0, 200)) lines.push(`- ${u}`);
+        if (arr.length > 200) lines.push(`- ...and ${arr.length - 200} more`);
+        lines.push("");
+      }
+    };
+    section("Pages missing from sitemap", crawl.missingFromSitemap);
+    section("Sitemap URLs with no built page", crawl.sitemapUrlsWithoutPage);
+    section("noindex pages listed in sitemap", crawl.noindexInSitemap);
+    section("Paths blocked by robots.txt", crawl.blockedByRobots.map(b => `${b.url} — \`${b.rule}\``));
+  }
+
+  const perf = summary.performance;
+  if (perf) {
+    lines.push(`\n## Performance\n`);
+    lines.push("| Route | Total | HTML | CSS | JS | Fonts | Images | Requests |");
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|");
+    for (const p of perf.pages.slice(0, 50)) {
+      const b = p.bytes;
+      lines.push(`| ${p.route} | ${formatBytes(b.total)} | ${formatBytes(b.html)} | ${formatBytes(b.css)} | ${formatBytes(b.js)} | ${formatBytes(b.font)} | ${formatBytes(b.image)} | ${p.requests} |`);
+    }
+    if (perf.pages.length > 50) lines.push(`\n- ...and ${perf.pages.length - 50} lighter routes`);
+    lines.push(`\n### Heaviest assets\n`);
+    lines.push("| Asset | Kind | Size | Pages |");
+    lines.push("|---|---|---:|---:|");
+    for (const a of perf.heaviestAssets) lines.push(`| ${a.file} | ${a.kind} | ${formatBytes(a.bytes)} | ${a.pages} |`);
+    lines.push(`\n### Unoptimized assets (${perf.unoptimizedAssets.length})\n`);
+    if (perf.unoptimizedAssets.length === 0) lines.push("None");
+    for (const a of perf.unoptimizedAssets) lines.push(`- \`${a.file}\` (${formatBytes(a.bytes)}, ${a.pages} page${a.pages === 1 ? "" : "s"}): ${a.reason}`);
+    lines.push(`\n### Weight by folder\n`);
+    for (const d of perf.assetDirectories) lines.push(`- \`${d.dir}/\`: ${formatBytes(d.bytes)} in ${d.files} files`);
+  }
+
+  const a11y = Object.entries(summary.accessibility ?? {});
+  lines.push(`\n## Accessibility (${a11y.length} rule${a11y.length === 1 ? "" : "s"} with findings)\n`);
+  if (a11y.length === 0) {
+    lines.push("None\n");
+  } else {
+    for (const [ruleId, files] of a11y) {
+      lines.push(`### \`${ruleId}\` (${files.length})\n`);
+      for (const f of files.slice(0, 50)) {
+        const doc = report.documents.find(d => d.filePath === f);
+        const messages = (doc?.warnings ?? []).filter(w => w.ruleId === ruleId).map(w => w.message);
+        lines.push(`- ${path.relative(process.cwd(), f)}: ${messages.slice(0, 3).join("; ")}${messages.length > 3 ? `; ...and ${messages.length - 3} more` : ""}`);
+      }
+      if (files.length > 50) lines.push(`- ...and ${files.length - 50} more`);
+      lines.push("");
+    }
+  }
+
+  const targeted = report.documents.filter(d => d.keywordTargets?.length);
+  if (targeted.length) {
+    lines.push(`\n## Target keywords\n`);
+    lines.push("| Page | Keyword | Title | H1 | Description | First paragraph | Density | Rank | Ranks higher |");
+    lines.push("|---|---|:-:|:-:|:-:|:-:|---:|---:|---|");
+    const mark = (b: boolean) => (b ? "✓" : "✗");
+    for (const d of targeted) {
+      for (const t of d.keywordTargets!) {
+        const higher = t.outrankedBy.slice(0, 3).map(o => path.relative(report.rootDir, o.filePath)).join(", ") + (t.outrankedBy.length > 3 ? ", ..." : "");
+        lines.push(`| ${path.relative(process.cwd(), d.filePath)} | ${t.keyword} | ${mark(t.inTitle)} | ${mark(t.inH1)} | ${mark(t.inDescription)} | ${mark(t.inFirstParagraph)} | ${t.density.toFixed(2)}% | ${t.rank ?? "—"} | ${higher || "—"} |`);
+      }
+    }
+  }
+
+  const prose = report.documents.filter(d => d.wordCount > 150).sort((a, b) => b.fleschKincaidGrade - a.fleschKincaidGrade);
+  if (prose.length) {
+    lines.push(`\n## Readability\n`);
+    lines.push("| Page | Words | Flesch | FK grade | Fog | SMOG | Coleman-Liau | Hardest section |");
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---|");
+    for (const d of prose.slice(0, 50)) {
+      const hardestSection = [...(d.readabilitySections ?? [])].filter(s => s.heading).sort((a, b) => b.fleschKincaidGrade - a.fleschKincaidGrade)[0];
+      lines.push(`| ${d.routeHint || path.relative(process.cwd(), d.filePath)} | ${d.wordCount} | ${d.fleschReadingEase.toFixed(1)} | ${d.fleschKincaidGrade.toFixed(1)} | ${d.gunningFog.toFixed(1)} | ${d.smogIndex.toFixed(1)} | ${d.colemanLiau.toFixed(1)} | ${hardestSection ? `${hardestSection.heading} (${hardestSection.fleschKincaidGrade.toFixed(1)})` : "—"} |`);
+    }
+    if (prose.length > 50) lines.push(`\n- ...and ${prose.length - 50} more`);
+    lines.push(`\n### Hardest sentences\n`);
+    for (const { doc, sentence } of hardestAcrossPages(report).slice(0, 25)) {
+      lines.push(`- **${sentence.grade.toFixed(1)}** \`${sentenceLocation(doc, sentence)}\` (${sentence.words} words, ${sentence.polysyllables} polysyllabic): ${sentence.text}`);
+    }
+  }
+
+  const graph = summary.linkGraph;
+  if (graph) {
+    lines.push(`\n## Internal link graph (${graph.pages.length} pages)\n`);
+    lines.push(`- Orphans (no inbound links): ${graph.orphans.length ? graph.orphans.join(", ") : "none"}`);
+    lines.push(`- Unreachable from \`/\`: ${graph.unreachable.length ? graph.unreachable.join(", ") : "none"}`);
+    lines.push(`\nAuthority is PageRank scaled so the average page scores 1.00.\n`);
+    lines.push("| Page | Inbound | Outbound | Depth | Authority |");
+    lines.push("|---|---:|---:|---:|---:|");
+    for (const p of graph.pages.slice(0, 25)) {
+      lines.push(`| ${p.route} | ${p.inbound} | ${p.outbound} | ${p.depth ?? "∞"} | ${p.authority.toFixed(2)} |`);
+    }
+    if (graph.suggestions.length) {
+      lines.push(`\n### Suggested link sources for weakly linked pages\n`);
+      for (const s of graph.suggestions) {
+        lines.push(`- **${s.route}** (inbound ${s.inbound}, depth ${s.depth ?? "∞"}): ${s.sources.map(x => `${x.route} (${x.similarity.toFixed(2)})`).join(", ")}`);
+      }
+    }
+  }
+
+  lines.push(`\n## Competing pages (${summary.similarPages.length})\n`);
+  if (summary.similarPages.length === 0) {
+    lines.push("None\n");
+  } else {
+    lines.push("| Similarity | Pages | Shared terms |");
+    lines.push("|---:|---|---|");
+    for (const p of summary.similarPages) {
+      const pages = p.files.map(f => path.relative(process.cwd(), f)).join("<br>");
+      lines.push(`| ${p.similarity.toFixed(3)} | ${pages} | ${p.sharedTerms.join(", ")} |`);
+    }
+  }
+
+  lines.push(`\n## Near-duplicate descriptions (${summary.nearDuplicateDescriptions.length})\n`);
+  if (summary.nearDuplicateDescriptions.length === 0) lines.push("None\n");
+  for (const c of summary.nearDuplicateDescriptions) {
+    lines.push(`- **${c.files.length} pages** (similarity ${c.similarity.toFixed(2)}) — “${c.descriptions[0]}”`);
+    for (const f of c.files.slice(0, 20)) lines.push(`  - ${path.relative(process.cwd(), f)}`);
+    if (c.files.length > 20) lines.push(`  - ...and ${c.files.length - 20} more`);
+  }
+
+  if (report.comparison) {
+    const c = report.comparison;
+    lines.push(`\n## Changes since baseline\n`);
+    lines.push(`Baseline generated: ${new Date(c.baselineGeneratedAt).toLocaleString()} — **${c.regressionCount} regression(s)**\n`);
+    const block = (label: string, arr: string[]) => {
+      lines.push(`\n### ${label} (${arr.length})\n`);
+      if (arr.length === 0) { lines.push("None\n"); return; }
+      for (const line of arr.slice(0, 200)) lines.push(`- ${line}`);
+      if (arr.length > 200) lines.push(`- ...and ${arr.length - 200} more`);
+    };
+    block("New warnings", c.newWarnings.map(formatPageWarning));
+    block("Resolved warnings", c.resolvedWarnings.map(formatPageWarning));
+    block("Newly missing <title>", c.newlyMissingTitle);
+    block("Newly missing meta description", c.newlyMissingDescription);
+    block("Newly missing H1", c.newlyMissingH1);
+    block("New duplicate titles", c.newDuplicateTitles.map(d => `**${d.title}** — ${d.files.join(", ")}`));
+    block("New broken links", c.newBrokenLinks.map(b => `${b.page} → \`${b.href}\` (${b.reason})`));
+    block("Readability / word-count regressions", c.metricRegressions.map(r => `${r.page}: ${r.metric} ${r.before.toFixed(1)} → ${r.after.toFixed(1)}`));
+  }
+
   lines.push(`\n---\n*Generated by seo-audit.ts*`);
   return lines.join("\n");
 }
 
-async function main() {
-  const { rootDir, outFile } = parseArgs();
-  const report = await generateReport(rootDir);
+/**
+ * Map an audited file back to the source file that produced it. Built routes resolve to a
+ * content collection entry (`/writing/foo/` -> `content/writing/foo.mdx`) or to the page that
+ * renders them, including dynamic ones (`/tags/x/` -> `pages/tags/[tag].astro`).
+ * `sourceFiles` are paths relative to the source root; returns null when nothing matches.
+ */
+export function sourceFileForRoute(route: string, sourceFiles: string[]): string | null {
+  const available = new Set(sourceFiles.map(f => f.replace(/\\/g, "/")));
+  const segs = route.replace(/\.html$/, "").split("/").filter(Boolean);
+  if (segs.length === 2) {
+    for (const ext of [".mdx", ".md", ".json"]) {
+      const candidate = `content/${segs[0]}/${segs[1]}${ext}`;
+      if (available.has(candidate)) return candidate;
+    }
+  }
+  const base = segs.length ? segs.join("/") : "index";
+  for (const candidate of [".astro", ".md", ".mdx", "/index.astro", "/index.md", "/index.mdx"].map(ext => `pages/${base}${ext}`)) {
+    if (available.has(candidate)) return candidate;
+  }
+  // Dynamic routes: prefer the page with the most static segments
+  const target = segs.join("/");
+  const escape = (t: string) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  let best: { file: string; score: number } | null = null;
+  for (const file of available) {
+    const m = file.match(/^pages\/(.+?)(\/index)?\.(astro|md|mdx)$/);
+    if (!m || !m[1].includes("[")) continue;
+    const parts = m[1].split("/");
+    const pattern = parts
+      .map(part => part.split(/(\[[^\]]+\])/).map(t => (t.startsWith("[...") ? ".*" : t.startsWith("[") ? "[^/]+" : escape(t))).join(""))
+      .join("/");
+    if (!new RegExp(`^${pattern}$`).test(target)) continue;
+    const score = parts.filter(part => !part.includes("[")).length;
+    if (!best || score > best.score) best = { file, score };
+  }
+  return best?.file ?? null;
+}
+
+// Where a rule's finding lives in a source file; anything else is annotated on line 1
+const SARIF_ANCHORS: Array<{ rules: RegExp; line: RegExp }> = [
+  { rules: /^(title-|og-title)/, line: /^\s*"?title"?\s*:/m },
+  { rules: /^(description-|og-description)/, line: /^\s*"?(summary|description)"?\s*:/m },
+  { rules: /^h1-/, line: /^#\s/m },
+  { rules: /^jsonld-/, line: /application\/ld\+json/ },
+  { rules: /^target-keyword/, line: /^\s*"?targetKeywords"?\s*:/m },
+  { rules: /^(og-|twitter-)/, line: /og:image|twitter:|slot="head"/ },
+];
+
+function sarifLine(source: string, ruleId: string, message: string): number {
+  const explicit = /^Line (\d+):/.exec(message);
+  if (explicit) return Number(explicit[1]);
+  for (const anchor of SARIF_ANCHORS) {
+    if (!anchor.rules.test(ruleId)) continue;
+    const m = anchor.line.exec(source);
+    if (m) return source.slice(0, m.index).split("\n").length;
+  }
+  return 1;
+}
+
+/**
+ * SARIF 2.1.0 log of every finding, located in the source tree so code review tools can
+ * annotate the `.mdx`/`.astro` file instead of the built HTML.
+ */
+async function renderSarif(report: Report, sourceRoot: string, checks: Record<string, RuleDefinition> = {}): Promise<object> {
+  const sourceFiles = (await walkFiles(sourceRoot)).map(f => path.relative(sourceRoot, f));
+  const sourceText = new Map<string, string>();
+  const results: object[] = [];
+  for (const d of report.documents) {
+    if (d.warnings.length === 0) continue;
+    let file = d.filePath;
+    const route = routeKeysForFile(path.relative(report.rootDir, d.filePath))[0];
+    if (path.extname(d.filePath).toLowerCase() === ".html") {
+      const mapped = sourceFileForRoute(route, sourceFiles);
+      if (mapped) file = path.join(sourceRoot, mapped);
+    }
+    if (!sourceText.has(file)) sourceText.set(file, await fs.readFile(file, "utf8").catch(() => ""));
+    const uri = path.relative(process.cwd(), file).split(path.sep).join("/");
+    for (const w of d.warnings) {
+      results.push({
+        ruleId: w.ruleId,
+        level: w.severity === "warn" ? "warning" : w.severity === "info" ? "note" : "error",
+        message: { text: file === d.filePath ? w.message : `${w.message} (${route})` },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri },
+            region: { startLine: sarifLine(sourceText.get(file) ?? "", w.ruleId, w.message) },
+          },
+        }],
+      });
+    }
+  }
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "seo-audit",
+          informationUri: "https://keyrxng.xyz",
+          rules: Object.entries({ ...RULES, ...checks }).map(([id, def]) => ({
+            id,
+            shortDescription: { text: def.description },
+            defaultConfiguration: { level: def.defaults.severity === "warn" ? "warning" : def.defaults.severity === "info" ? "note" : "error" },
+          })),
+        },
+      },
+      results,
+    }],
+  };
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+/** Self-contained dashboard: summary, findings by rule, and a sortable per-page table with collapsible details. */
+function renderHtml(report: Report): string {
+  const { summary } = report;
+  const rel = (f: string) => escapeHtml(path.relative(report.rootDir, f));
+  const findings = countFindings(report);
+  const graphPages = new Map((summary.linkGraph?.pages ?? []).map(p => [p.filePath, p]));
+  const weights = new Map((summary.performance?.pages ?? []).map(p => [p.filePath, p]));
+  const rows = report.documents.map(d => {
+    const node = graphPages.get(d.filePath);
+    const errors = d.warnings.filter(w => w.severity === "error").length;
+    const keywords = (d.topKeywords || []).slice(0, 6).map(k => k.term).join(", ");
+    const detail = [
+      d.title ? `<p><strong>Title:</strong> ${escapeHtml(d.title)}</p>` : "",
+      d.description ? `<p><strong>Description:</strong> ${escapeHtml(d.description)}</p>` : "",
+      `<p><strong>Headings:</strong> H1 ${d.headings.h1.length} · H2 ${d.headings.h2.length} · H3 ${d.headings.h3.length}` +
+        ` · <strong>Links:</strong> ${d.internalLinks.length} internal, ${d.externalLinks.length} external` +
+        ` · <strong>Images without alt:</strong> ${d.imagesWithoutAlt}</p>`,
+      `<p><strong>Grade:</strong> Flesch-Kincaid ${d.fleschKincaidGrade.toFixed(1)} · Gunning Fog ${d.gunningFog.toFixed(1)}` +
+        ` · SMOG ${d.smogIndex.toFixed(1)} · Coleman-Liau ${d.colemanLiau.toFixed(1)}</p>`,
+      d.warnings.length
+        ? `<ul>${d.warnings.map(w => `<li class="${w.severity}"><code>${escapeHtml(w.ruleId)}</code> ${escapeHtml(w.message)}</li>`).join("")}</ul>`
+        : "<p>No findings</p>",
+      d.keywordTargets?.length
+        ? `<p><strong>Target keywords:</strong> ${d.keywordTargets.map(t => `${escapeHtml(t.keyword)} <small>(${[t.inTitle && "title", t.inH1 && "H1", t.inDescription && "description", t.inFirstParagraph && "first paragraph"].filter(Boolean).join(", ") || "nowhere"}; ${t.density.toFixed(2)}%; rank ${t.rank ?? "—"}${t.outrankedBy.length ? `; ${t.outrankedBy.length} page(s) rank higher` : ""})</small>`).join(", ")}</p>`
+        : "",
+      d.readabilitySections?.some(s => s.heading)
+        ? `<table><thead><tr><th>Section</th><th>Words</th><th>Flesch</th><th>FK grade</th><th>Fog</th></tr></thead><tbody>${d.readabilitySections.map(s => `<tr><td>${escapeHtml(s.heading || "(intro)")}</td><td>${s.wordCount}</td><td>${s.fleschReadingEase.toFixed(1)}</td><td>${s.fleschKincaidGrade.toFixed(1)}</td><td>${s.gunningFog.toFixed(1)}</td></tr>`).join("")}</tbody></table>`
+        : "",
+      d.hardSentences?.length
+        ? `<p><strong>Hardest sentences:</strong></p><ol>${d.hardSentences.map(s => `<li><small>grade ${s.grade.toFixed(1)} · ${escapeHtml(sentenceLocation(d, s))}</small><br>${escapeHtml(s.text)}</li>`).join("")}</ol>`
+        : "",
+      d.topKeywords?.length
+        ? `<p><strong>Keywords:</strong> ${d.topKeywords.map(k => `${escapeHtml(k.term)} <small>${k.tfidf.toFixed(2)}</small>`).join(", ")}</p>`
+        : "",
+    ].join("");
+    return `<tr>
+<td data-sort="${rel(d.filePath)}"><details><summary>${escapeHtml(d.routeHint || path.relative(report.rootDir, d.filePath))}</summary>${detail}</details></td>
+<td data-sort="${d.wordCount}">${d.wordCount}</td>
+<td data-sort="${d.fleschReadingEase.toFixed(1)}">${d.fleschReadingEase.toFixed(1)}</td>
+<td data-sort="${d.fleschKincaidGrade.toFixed(1)}">${d.fleschKincaidGrade.toFixed(1)}</td>
+<td data-sort="${d.warnings.length + errors * 1000}">${d.warnings.length}${errors ? ` <span class="error">(${errors} error${errors === 1 ? "" : "s"})</span>` : ""}</td>
+<td data-sort="${weights.get(d.filePath)?.bytes.total ?? ""}">${weights.has(d.filePath) ? formatBytes(weights.get(d.filePath)!.bytes.total) : ""}</td>
+<td data-sort="${node?.inbound ?? ""}">${node?.inbound ?? ""}</td>
+<td data-sort="${node ? node.depth ?? 999 : ""}">${node ? node.depth ?? "∞" : ""}</td>
+<td data-sort="${node?.authority.toFixed(3) ?? ""}">${node?.authority.toFixed(2) ?? ""}</td>
+<td data-sort="${escapeHtml(keywords)}">${escapeHtml(keywords)}</td>
+</tr>`;
+  });
+  const list = (title: string, items: string[]) =>
+    items.length ? `<section><h2>${title} (${items.length})</h2><ul>${items.map(i => `<li>${i}</li>`).join("")}</ul></section>` : "";
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width">
+<title>SEO Audit — ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; color: #1a1a1a; background: #fafaf8; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.15rem; margin-top: 2rem; }
+  .cards { display: flex; gap: 1rem; flex-wrap: wrap; }
+  .card { background: #fff; border: 1px solid #ddd; border-radius: 6px; padding: .75rem 1rem; min-width: 8rem; }
+  .card b { display: block; font-size: 1.4rem; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { border-bottom: 1px solid #eee; padding: .4rem .6rem; text-align: left; vertical-align: top; }
+  th { cursor: pointer; user-select: none; position: sticky; top: 0; background: #f0f0ec; }
+  th[aria-sort="ascending"]::after { content: " ▲"; } th[aria-sort="descending"]::after { content: " ▼"; }
+  td:nth-child(n+2):nth-child(-n+9) { text-align: right; font-variant-numeric: tabular-nums; }
+  details summary { cursor: pointer; } details[open] { padding-bottom: .5rem; }
+  .error { color: #b00020; } .warn { color: #8a5a00; } .info { color: #555; }
+</style>
+</head>
+<body>
+<h1>SEO Audit</h1>
+<p>${escapeHtml(report.rootDir)} · generated ${escapeHtml(report.generatedAt)}</p>
+<div class="cards">
+  <div class="card"><b>${summary.totalDocuments}</b>documents</div>
+  <div class="card"><b>${findings.reduce((n, f) => n + f.count, 0)}</b>findings</div>
+  <div class="card"><b>${summary.brokenLinks.length}</b>broken links</div>
+  <div class="card"><b>${summary.similarPages.length}</b>competing pairs</div>
+  <div class="card"><b>${summary.duplicateTitles.length}</b>duplicate titles</div>
+</div>
+${findings.length ? `<section><h2>Findings by rule</h2><table><thead><tr><th>Severity</th><th>Rule</th><th>Count</th></tr></thead><tbody>${findings.map(f => `<tr><td class="${f.severity}">${f.severity}</td><td><code>${escapeHtml(f.ruleId)}</code></td><td>${f.count}</td></tr>`).join("")}</tbody></table></section>` : ""}
+${list("Broken internal links", summary.brokenLinks.map(b => `${rel(b.filePath)} → <code>${escapeHtml(b.href)}</code> (${b.reason})`))}
+${list("Unoptimized assets", (summary.performance?.unoptimizedAssets ?? []).map(a => `<code>${escapeHtml(a.file)}</code> ${formatBytes(a.bytes)} — ${escapeHtml(a.reason)}`))}
+${list("Orphan pages", (summary.linkGraph?.orphans ?? []).map(escapeHtml))}
+${list("Suggested link sources", (summary.linkGraph?.suggestions ?? []).map(s => `${escapeHtml(s.route)} ← ${s.sources.map(x => `${escapeHtml(x.route)} (${x.similarity.toFixed(2)})`).join(", ")}`))}
+${list("Competing pages", summary.similarPages.map(p => `${p.similarity.toFixed(3)} ${p.files.map(rel).join(" ↔ ")} — ${escapeHtml(p.sharedTerms.join(", "))}`))}
+<section>
+<h2>Pages</h2>
+<table class="sortable">
+<thead><tr><th>Page</th><th>Words</th><th>Flesch</th><th>FK grade</th><th>Warnings</th><th>Weight</th><th>Inbound</th><th>Depth</th><th>Authority</th><th>Top keywords</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</section>
+<script>
+  document.querySelectorAll("table.sortable th").forEach((th, col) => {
+    th.addEventListener("click", () => {
+      const tbody = th.closest("table").tBodies[0];
+      const dir = th.getAttribute("aria-sort") === "ascending" ? -1 : 1;
+      th.parentElement.querySelectorAll("th").forEach(h => h.removeAttribute("aria-sort"));
+      th.setAttribute("aria-sort", dir === 1 ? "ascending" : "descending");
+      const key = tr => tr.children[col].dataset.sort ?? tr.children[col].textContent;
+      const rows = Array.from(tbody.rows).sort((a, b) => {
+        const x = key(a), y = key(b), nx = Number(x), ny = Number(y);
+        return dir * (x !== "" && y !== "" && !isNaN(nx) && !isNaN(ny) ? nx - ny : x.localeCompare(y));
+      });
+      tbody.append(...rows);
+    });
+  });
+</script>
+</body>
+</html>
+`;
+}
+
+export type WriteOptions = {
+  /** JSON report path; the other formats are written next to it. null skips the JSON file */
+  outFile: string | null;
+  formats: readonly OutputFormat[];
+  /** Source root that SARIF results point into */
+  sourceRoot: string;
+  /** Extra checks passed to generateReport, so SARIF can describe their rules */
+  checks?: Record<string, RuleDefinition>;
+};
+
+/** Write the report in each requested format, logging every file written. */
+export async function writeReports(report: Report, { outFile, formats, sourceRoot, checks }: WriteOptions): Promise<void> {
   if (outFile) {
     // Ensure parent dir exists
     try {
       await fs.mkdir(path.dirname(outFile), { recursive: true });
     } catch {}
-    await fs.writeFile(outFile, JSON.stringify(report, null, 2), "utf8");
-    console.log(`Wrote report to ${path.relative(process.cwd(), outFile)}`);
-    // Also write a human-friendly markdown summary next to the JSON
-    try {
-      const md = renderMarkdown(report);
-      const mdPath = outFile.replace(/\.json$/i, ".md");
-      await fs.writeFile(mdPath, md, "utf8");
-      console.log(`Wrote human summary to ${path.relative(process.cwd(), mdPath)}`);
-    } catch (err) {
-      console.error("Failed to write markdown summary:", err instanceof Error ? err.message : err);
-    }
-  } else {
-    process.stdout.write(JSON.stringify(report, null, 2));
-    // Also emit markdown file to cwd for easier reading
+  }
+  // Other formats sit next to the JSON report (or in cwd with --stdout)
+  const stem = (outFile ?? path.resolve(process.cwd(), "seo-report.json")).replace(/\.json$/i, "");
+  const renderers: Record<OutputFormat, { file: string; label: string; render: () => string | Promise<string> }> = {
+    json: { file: outFile ?? "", label: "report", render: () => JSON.stringify(report, null, 2) },
+    md: { file: stem + ".md", label: "human summary", render: () => renderMarkdown(report) },
+    html: { file: stem + ".html", label: "HTML dashboard", render: () => renderHtml(report) },
+    sarif: { file: stem + ".sarif", label: "SARIF log", render: async () => JSON.stringify(await renderSarif(report, sourceRoot, checks), null, 2) },
+  };
+  for (const format of formats) {
+    const { file, label, render } = renderers[format];
+    if (!file) continue;
     try {
-      const md = renderMarkdown(report);
-      const mdPath = path.resolve(process.cwd(), "seo-report.md");
-      await fs.writeFile(mdPath, md, "utf8");
-      console.log(`Wrote human summary to ${path.relative(process.cwd(), mdPath)}`);
+      await fs.writeFile(file, await render(), "utf8");
+      console.log(`Wrote ${label} to ${path.relative(process.cwd(), file)}`);
     } catch (err) {
-      console.error("Failed to write markdown summary:", err instanceof Error ? err.message : err);
+      // The JSON report is the primary output; the others are conveniences
+      if (format === "json") throw err;
+      console.error(`Failed to write ${label}:`, err instanceof Error ? err.message : err);
     }
   }
-  printHumanSummary(report);
 }
 
-main().catch(err => {
-  console.error(err);
-  process.exit(1);
-});
-
+async function main() {
+  const { rootDir, outFile, baselineFile, configFile, configRequired, cacheFile, formats, sourceRoot, watch } = parseArgs();
+  const config = await loadConfig(configFile, configRequired);
+  if (watch) {
+    // Re-analyzing only the saved file relies on the per-file cache
+    await watchContent(rootDir, config, cacheFile ?? path.resolve(process.cwd(), DEFAULT_CACHE_FILE));
+    return;
+  }
+  const report = await generateReport({ rootDir, config, cacheFile, sourceRoot });
+  if (baselineFile) {
+    // Read before writing: --baseline and --out may point at the same file
+    const baseline = JSON.parse(await fs.readFile(baselineFile, "utf8")) as Report;
+    report.comparison = compareReports(report, baseline);
+  }
+  if (!outFile && formats.includes("json")) process.stdout.write(JSON.stringify(report, null, 2));
+  await writeReports(report, { outFile, formats, sourceRoot });
+  printHumanSummary(report);
+  if (report.comparison) {
+    printComparison(report.comparison);
+    if (report.comparison.regressionCount > 0) process.exitCode = 1;
+  }
+}
 
+// Only run as a CLI; tests and the Astro integration import this module
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+}
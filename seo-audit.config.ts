@@ -0,0 +1,31 @@
+import type { SeoAuditConfig } from './scripts/seo-audit';
+
+// Rule IDs and defaults live in RULES inside scripts/seo-audit.ts.
+// Severity is one of 'error' | 'warn' | 'info' | 'off'.
+// Typed (not `satisfies`) so astro.config.mjs can pass it straight to the integration.
+const config: SeoAuditConfig = {
+  rules: {
+    'title-length': { min: 15, max: 65 },
+    'description-length': { min: 50, max: 160 },
+  },
+  similarity: { pageThreshold: 0.5, descriptionThreshold: 0.5, minWords: 150 },
+  // Per-page KB budgets; fonts and images are the usual offenders
+  performance: { budgetsKb: { total: 1000, font: 300, image: 500, css: 100, js: 150 } },
+  // Case studies reached only via /work/ and prev/next have about 4 linking pages
+  linkGraph: { weakInbound: 4, maxDepth: 3, suggestions: 3 },
+  overrides: [
+    {
+      // Competency/technology JSON files are data rendered by /stack/[tech] and
+      // /competencies/[slug], so they never have their own <title>, <meta> or H1.
+      files: ['**/competencies/*.json', '**/technologies/*.json'],
+      rules: { 'title-missing': 'off', 'description-missing': 'off', 'h1-missing': 'off' },
+    },
+    {
+      // Tag archives are titled "Tag: <name>", which is short by design
+      files: ['/tags/**', '**/pages/tags/**'],
+      rules: { 'title-length': { min: 5 }, 'og-title': { min: 5 } },
+    },
+  ],
+};
+
+export default config;
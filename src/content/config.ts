@@ -1,4 +1,9 @@
-import { defineCollection, z } from 'astro:content';
+import { defineCollection, reference, z } from 'astro:content';
+import { techId } from '../lib/tech-aliases';
+
+// reference() types these fields but doesn't check the target exists;
+// getContentGraph() in src/lib/content-graph.ts fails the build on dangling ones.
+const uniqueRefs = <T extends { id: string }>(refs: T[]) => refs.filter((r, i) => refs.findIndex(o => o.id === r.id) === i);
 
 const writing = defineCollection({
   type: 'content',
@@ -7,11 +12,20 @@ const writing = defineCollection({
     summary: z.string().max(280),
     publishedAt: z.string(),
     tags: z.array(z.string()).default([]),
-    readingTime: z.string().optional(),
-    relatedWorkSlug: z.string().optional(),
+    // Terms the page is meant to rank for; checked by scripts/seo-audit.ts
+    targetKeywords: z.array(z.string()).default([]),
+    // Defaults to the file's last git commit; reading time is computed (remarkContentMeta)
+    updatedAt: z.string().optional(),
+    relatedWorkSlug: reference('work').optional(),
     ogImage: z.string().optional(),
     soWhat: z.string().optional(),
     hide: z.boolean().default(false),
+    // Multi-part posts share a series name; seriesOrder is the part number (src/lib/series.ts)
+    series: z.string().optional(),
+    seriesOrder: z.number().int().positive().optional(),
+  }).refine((d) => (d.series === undefined) === (d.seriesOrder === undefined), {
+    message: 'series and seriesOrder must be set together',
+    path: ['seriesOrder'],
   }),
 });
 
@@ -41,11 +55,14 @@ const work = defineCollection({
       )
       .optional(),
     wins: z.array(z.string()).optional(),
-    tech: z.array(z.string()).default([]),
+    // Display names ("Ethers.js"), resolved to technologies entries through TECH_ALIASES
+    tech: z.array(z.preprocess(v => (typeof v === 'string' ? techId(v) : v), reference('technologies'))).default([]).transform(uniqueRefs),
+    targetKeywords: z.array(z.string()).default([]),
     testimonials: z.array(z.string()).optional(),
     // Optional one-line business impact surfaced near the top of the case study
     soWhat: z.string().optional(),
     featured: z.boolean().default(false),
+    updatedAt: z.string().optional(),
   }),
 });
 
@@ -53,13 +70,13 @@ const technologies = defineCollection({
   type: 'data',
   schema: z.object({
     name: z.string(),
-    category: z.enum(['framework', 'library', 'platform', 'infra', 'security', 'api', 'runtime', 'database', 'spec']),
+    category: z.enum(['language', 'framework', 'library', 'platform', 'infra', 'security', 'api', 'runtime', 'database', 'spec']),
     area: z.enum(['frontend', 'backend', 'platform', 'crypto', 'ai', 'testing', 'web3', 'cryptography', 'data', 'auth']),
     group: z.string().optional(),
     icon: z.string().optional(),
     notes: z.string().optional(),
     links: z.array(z.object({ label: z.string(), url: z.string() })).default([]),
-    relatedWorkSlugs: z.array(z.string()).default([]),
+    relatedWorkSlugs: z.array(reference('work')).default([]),
   }),
 });
 
@@ -71,12 +88,26 @@ const competencies = defineCollection({
     summary: z.string(),
     bullets: z.array(z.string()).min(3).max(6),
     icon: z.string().optional(),
-    relatedWorkSlugs: z.array(z.string()).default([]),
-    relatedWritingSlugs: z.array(z.string()).default([]),
+    relatedWorkSlugs: z.array(reference('work')).default([]),
+    relatedWritingSlugs: z.array(reference('writing')).default([]),
     pinned: z.boolean().default(false),
   }),
 });
 
-export const collections = { writing, work, technologies, competencies };
+// Terms linked from posts on first mention by rehypeGlossary (src/lib/rehype-glossary.ts)
+const glossary = defineCollection({
+  type: 'data',
+  schema: z.object({
+    term: z.string(),
+    // Other spellings matched in prose; plurals ("Workers") match without listing them
+    aliases: z.array(z.string()).default([]),
+    definition: z.string(),
+    links: z.array(z.object({ label: z.string(), url: z.string() })).default([]),
+    relatedWritingSlugs: z.array(reference('writing')).default([]),
+    relatedWorkSlugs: z.array(reference('work')).default([]),
+  }),
+});
+
+export const collections = { writing, work, technologies, competencies, glossary };
 
 
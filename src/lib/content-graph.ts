@@ -0,0 +1,100 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+
+type Entries = {
+  work: CollectionEntry<'work'>;
+  writing: CollectionEntry<'writing'>;
+  technologies: CollectionEntry<'technologies'>;
+  competencies: CollectionEntry<'competencies'>;
+  glossary: CollectionEntry<'glossary'>;
+};
+export type CollectionName = keyof Entries;
+type Ref = { id: string; collection: string };
+
+// Every reference() field in src/content/config.ts: [collection, field, target collection]
+const REFERENCE_FIELDS = [
+  ['writing', 'relatedWorkSlug', 'work'],
+  ['work', 'tech', 'technologies'],
+  ['technologies', 'relatedWorkSlugs', 'work'],
+  ['competencies', 'relatedWorkSlugs', 'work'],
+  ['competencies', 'relatedWritingSlugs', 'writing'],
+  ['glossary', 'relatedWritingSlugs', 'writing'],
+  ['glossary', 'relatedWorkSlugs', 'work'],
+] as const;
+type ReferenceField<C extends CollectionName> = Extract<(typeof REFERENCE_FIELDS)[number], readonly [C, string, string]>[1];
+
+/** Content collections are addressed by slug, data collections by id. */
+export const entryKey = (entry: Entries[CollectionName]) => ('slug' in entry ? entry.slug : entry.id);
+
+const refsOf = (entry: Entries[CollectionName], field: string): Ref[] => {
+  const value = (entry.data as Record<string, unknown>)[field] as Ref | Ref[] | undefined;
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+};
+
+export type ContentGraph = {
+  entries: { [C in CollectionName]: Map<string, Entries[C]> };
+  /** `${target collection}/${id}` → `${collection}.${field}` → entries pointing at it */
+  inbound: Map<string, Map<string, Entries[CollectionName][]>>;
+};
+
+async function buildContentGraph(): Promise<ContentGraph> {
+  const [work, writing, technologies, competencies, glossary] = await Promise.all([
+    getCollection('work'),
+    getCollection('writing'),
+    getCollection('technologies'),
+    getCollection('competencies'),
+    getCollection('glossary'),
+  ]);
+  const entries = {
+    work: new Map(work.map(e => [entryKey(e), e])),
+    writing: new Map(writing.map(e => [entryKey(e), e])),
+    technologies: new Map(technologies.map(e => [entryKey(e), e])),
+    competencies: new Map(competencies.map(e => [entryKey(e), e])),
+    glossary: new Map(glossary.map(e => [entryKey(e), e])),
+  };
+  const inbound: ContentGraph['inbound'] = new Map();
+  const dangling: string[] = [];
+  for (const [from, field, target] of REFERENCE_FIELDS) {
+    for (const entry of entries[from].values()) {
+      for (const ref of refsOf(entry, field)) {
+        if (!entries[target].has(ref.id)) {
+          dangling.push(`${from}/${entryKey(entry)} ${field} → ${target}/${ref.id}`);
+          continue;
+        }
+        const byField = inbound.get(`${target}/${ref.id}`) ?? new Map();
+        byField.set(`${from}.${field}`, [...(byField.get(`${from}.${field}`) ?? []), entry]);
+        inbound.set(`${target}/${ref.id}`, byField);
+      }
+    }
+  }
+  if (dangling.length) {
+    throw new Error(`Dangling content references (${dangling.length}):\n  ${dangling.join('\n  ')}`);
+  }
+  return { entries, inbound };
+}
+
+let graph: Promise<ContentGraph> | undefined;
+
+/** Every collection indexed by slug/id, with references checked once per build. */
+export function getContentGraph(): Promise<ContentGraph> {
+  return (graph ??= buildContentGraph());
+}
+
+/** Follow references: the entries a field points at, in the order listed. */
+export async function resolveRefs<C extends CollectionName>(collection: C, refs: Ref | readonly Ref[] | undefined): Promise<Entries[C][]> {
+  const { entries } = await getContentGraph();
+  const list = refs === undefined ? [] : Array.isArray(refs) ? refs : [refs as Ref];
+  return list.map(ref => entries[collection].get(ref.id)!);
+}
+
+/**
+ * Reverse lookup: entries of `from` whose `field` references `target`,
+ * e.g. referencedBy('writing', 'relatedWorkSlug', workEntry) for the essays about a case study.
+ */
+export async function referencedBy<C extends CollectionName>(
+  from: C,
+  field: ReferenceField<C>,
+  target: Entries[CollectionName],
+): Promise<Entries[C][]> {
+  const { inbound } = await getContentGraph();
+  return (inbound.get(`${target.collection}/${entryKey(target)}`)?.get(`${from}.${field}`) ?? []) as Entries[C][];
+}
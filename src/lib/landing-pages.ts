@@ -0,0 +1,56 @@
+import type { CollectionEntry } from 'astro:content';
+import { getContentGraph, referencedBy, resolveRefs } from './content-graph';
+
+type Work = CollectionEntry<'work'>;
+type Post = CollectionEntry<'writing'>;
+
+export type Landing<E> = {
+  entry: E;
+  /** Newest year first */
+  work: Work[];
+  /** Published (non-hidden) posts, newest first */
+  writing: Post[];
+};
+
+const unique = <T extends { id: string }>(items: T[]) => [...new Map(items.map((i) => [i.id, i])).values()];
+const byYear = (a: Work, b: Work) => b.data.year.localeCompare(a.data.year) || a.data.title.localeCompare(b.data.title);
+const byDate = (a: Post, b: Post) => new Date(b.data.publishedAt).getTime() - new Date(a.data.publishedAt).getTime();
+
+/** Posts written up from any of `work` (their relatedWorkSlug). */
+async function writingAbout(work: Work[]): Promise<Post[]> {
+  return (await Promise.all(work.map((w) => referencedBy('writing', 'relatedWorkSlug', w)))).flat();
+}
+
+function landing<E>(entry: E, work: Work[], writing: Post[]): Landing<E> {
+  return {
+    entry,
+    work: unique(work).sort(byYear),
+    writing: unique(writing).filter((p) => !p.data.hide).sort(byDate),
+  };
+}
+
+/**
+ * A technology's case studies (listed in relatedWorkSlugs, or naming it in their `tech`) and the
+ * posts about those case studies or tagged with its name.
+ */
+export async function techLanding(tech: CollectionEntry<'technologies'>): Promise<Landing<CollectionEntry<'technologies'>>> {
+  const { entries } = await getContentGraph();
+  const work = [...(await resolveRefs('work', tech.data.relatedWorkSlugs)), ...(await referencedBy('work', 'tech', tech))];
+  const names = new Set([tech.id, tech.data.name].map((n) => n.toLowerCase()));
+  const tagged = [...entries.writing.values()].filter((p) => p.data.tags.some((t) => names.has(t.toLowerCase())));
+  return landing(tech, work, [...(await writingAbout(work)), ...tagged]);
+}
+
+/** A competency's listed case studies and posts, plus posts about those case studies. */
+export async function competencyLanding(competency: CollectionEntry<'competencies'>): Promise<Landing<CollectionEntry<'competencies'>>> {
+  const work = await resolveRefs('work', competency.data.relatedWorkSlugs);
+  const writing = await resolveRefs('writing', competency.data.relatedWritingSlugs);
+  return landing(competency, work, [...writing, ...(await writingAbout(work))]);
+}
+
+/** Technologies with at least one case study or post to show; the rest only appear on /stack. */
+export async function techLandings(): Promise<Landing<CollectionEntry<'technologies'>>[]> {
+  const { entries } = await getContentGraph();
+  const all = await Promise.all([...entries.technologies.values()].map(techLanding));
+  return all.filter((l) => l.work.length + l.writing.length > 0);
+}
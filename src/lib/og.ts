@@ -0,0 +1,266 @@
+import satori from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import { spawn } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+const PADDING = 64;
+const CONTENT_WIDTH = OG_WIDTH - PADDING * 2;
+
+export const OG_THEMES = ['light', 'dark'] as const;
+export type OgTheme = (typeof OG_THEMES)[number];
+
+// Astro's default cacheDir, so it survives between builds and is already gitignored
+export const OG_CACHE_DIR = path.resolve('node_modules/.astro/og');
+
+/** What a card shows; each kind has its own template. */
+export type OgCard =
+  | { kind: 'writing'; title: string; summary: string; publishedAt: string; readingTime: string; tags: string[] }
+  | {
+      kind: 'work';
+      title: string;
+      summary: string;
+      clientOrProject: string;
+      year: string;
+      outcomes: Array<{ value: string; metric: string }>;
+      /** Paths under public/, e.g. /tech-icons/astro.svg */
+      techIcons: Array<{ name: string; icon: string }>;
+    }
+  | { kind: 'page'; eyebrow: string; title: string; subtitle?: string };
+
+const PALETTES = {
+  dark: {
+    base: '#0f0f10',
+    fg: '#f3f3f1',
+    sub: '#c0c0bf',
+    chip: 'rgba(255,255,255,0.08)',
+    g1: 'rgba(42,111,107,0.12)',
+    g2: 'rgba(255,255,255,0.07)', // soft lift on dark
+  },
+  light: {
+    base: '#f6f6f3',
+    fg: '#0f0f10',
+    sub: '#6b6b6b',
+    chip: 'rgba(15,15,16,0.06)',
+    g1: 'rgba(42,111,107,0.10)',
+    g2: 'rgba(15,15,16,0.06)', // gentle shade on light
+  },
+};
+type Palette = (typeof PALETTES)[OgTheme];
+
+// Satori takes React-shaped element trees; this keeps the templates readable without JSX
+type El = { type: string; props: Record<string, unknown> };
+const el = (type: string, style: Record<string, unknown>, children?: unknown, props: Record<string, unknown> = {}): El =>
+  ({ type, props: { ...props, style, children } });
+
+// Noto Sans SemiBold advance widths (em), rounded up so estimates err towards wrapping early
+function charWidth(c: string): number {
+  if (c === ' ') return 0.27;
+  if (/[ijlI.,:;'’!|]/.test(c)) return 0.3;
+  if (/[ftr()[\]\-/]/.test(c)) return 0.4;
+  if (/[mwMW@%]/.test(c)) return 0.9;
+  if (/[A-Z0-9&+]/.test(c)) return 0.68;
+  return 0.6;
+}
+
+/** Lines `text` wraps to at `fontSize` px in a `maxWidth` px box, breaking between words. */
+export function lineCount(text: string, fontSize: number, maxWidth: number): number {
+  const wordWidth = (w: string) => [...w].reduce((n, c) => n + charWidth(c), 0) * fontSize;
+  const space = charWidth(' ') * fontSize;
+  let lines = 1;
+  let width = 0;
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const w = wordWidth(word);
+    if (width > 0 && width + space + w > maxWidth) {
+      lines++;
+      width = w;
+    } else {
+      width += (width > 0 ? space : 0) + w;
+    }
+  }
+  return lines;
+}
+
+/** Largest font size (2px steps) at which `text` fits in `maxLines`; `minSize` if none does (the template clamps). */
+export function fitTitle(text: string, { maxWidth = CONTENT_WIDTH, maxLines = 3, maxSize = 72, minSize = 40 } = {}): number {
+  for (let size = maxSize; size > minSize; size -= 2) {
+    if (lineCount(text, size, maxWidth) <= maxLines) return size;
+  }
+  return minSize;
+}
+
+function title(text: string, maxLines: number, palette: Palette): El {
+  const fontSize = fitTitle(text, { maxLines });
+  return el('div', { display: 'block', fontSize, fontWeight: 600, lineHeight: 1.12, color: palette.fg, lineClamp: maxLines }, text);
+}
+
+const eyebrow = (parts: string[], palette: Palette) =>
+  el('div', { display: 'flex', fontSize: 24, letterSpacing: 1, textTransform: 'uppercase', color: palette.sub }, parts.filter(Boolean).join('  ·  '));
+
+const summary = (text: string, palette: Palette) =>
+  el('div', { display: 'block', fontSize: 28, lineHeight: 1.35, color: palette.sub, lineClamp: 2 }, text);
+
+const chip = (text: string, palette: Palette) =>
+  el('div', { display: 'flex', padding: '6px 14px', borderRadius: 999, backgroundColor: palette.chip, fontSize: 22, color: palette.fg }, text);
+
+const footer = (left: El[], palette: Palette) =>
+  el('div', { display: 'flex', justifyContent: 'space-between', alignItems: 'center', width: '100%' }, [
+    el('div', { display: 'flex', gap: 12, alignItems: 'center' }, left),
+    el('div', { display: 'flex', fontSize: 22, color: palette.sub }, 'keyrxng.xyz'),
+  ]);
+
+const ICON_TYPES: Record<string, string> = { '.svg': 'image/svg+xml', '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg' };
+
+// Renders stdin with resvg; the exit code says whether it survived
+const RESVG_PROBE = `const { Resvg } = require(process.argv[1]); const chunks = [];
+process.stdin.on('data', (c) => chunks.push(c)).on('end', () => new Resvg(Buffer.concat(chunks)).render());`;
+const svgChecks = new Map<string, Promise<boolean>>();
+
+/**
+ * Whether resvg can draw `svg`. Some constructs (an invisible shape outside the viewBox, in
+ * public/tech-icons/webauthn.svg) make it panic, which aborts the process instead of throwing, so
+ * each icon is test-rendered once in a child process and the verdict kept next to the cached cards.
+ */
+function svgRenders(svg: Buffer, cacheDir: string | null): Promise<boolean> {
+  const hash = createHash('sha256').update(svg).digest('hex');
+  let check = svgChecks.get(hash);
+  if (!check) {
+    check = (async () => {
+      const marker = cacheDir && path.join(cacheDir, 'icons', hash);
+      const known = marker ? await readFile(marker, 'utf8').catch(() => null) : null;
+      if (known) return known === 'ok';
+      const resvg = createRequire(path.resolve('package.json')).resolve('@resvg/resvg-js');
+      const ok = await new Promise<boolean>((resolve) => {
+        const child = spawn(process.execPath, ['-e', RESVG_PROBE, resvg], { stdio: ['pipe', 'ignore', 'ignore'] });
+        child.on('error', () => resolve(false)).on('exit', (code) => resolve(code === 0));
+        child.stdin.end(svg);
+      });
+      if (marker) {
+        await mkdir(path.dirname(marker), { recursive: true });
+        await writeFile(marker, ok ? 'ok' : 'fails');
+      }
+      return ok;
+    })();
+    svgChecks.set(hash, check);
+  }
+  return check;
+}
+
+/** Tech icons as data URIs; formats satori can't draw (webp) and SVGs resvg can't render are skipped. */
+async function iconImages(icons: Array<{ name: string; icon: string }>, palette: Palette, cacheDir: string | null): Promise<El[]> {
+  const out: El[] = [];
+  for (const { name, icon } of icons) {
+    const type = ICON_TYPES[path.extname(icon).toLowerCase()];
+    if (!type) continue;
+    const data = await readFile(path.resolve('public', `.${icon}`)).catch(() => null);
+    if (!data || (type === 'image/svg+xml' && !(await svgRenders(data, cacheDir)))) continue;
+    out.push(el('div', { display: 'flex', width: 56, height: 56, alignItems: 'center', justifyContent: 'center', borderRadius: 12, backgroundColor: palette.chip }, [
+      el('img', { width: 36, height: 36 }, undefined, { src: `data:${type};base64,${data.toString('base64')}`, width: 36, height: 36, alt: name }),
+    ]));
+  }
+  return out;
+}
+
+async function cardBody(card: OgCard, palette: Palette, cacheDir: string | null): Promise<El[]> {
+  switch (card.kind) {
+    case 'writing': {
+      const date = new Date(card.publishedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+      return [
+        el('div', { display: 'flex', flexDirection: 'column', gap: 20 }, [
+          eyebrow(['Writing', date, `${card.readingTime} read`], palette),
+          title(card.title, 3, palette),
+          summary(card.summary, palette),
+        ]),
+        footer(card.tags.slice(0, 4).map((t) => chip(`#${t}`, palette)), palette),
+      ];
+    }
+    case 'work': {
+      const outcomes = card.outcomes.slice(0, 3);
+      return [
+        el('div', { display: 'flex', flexDirection: 'column', gap: 20 }, [
+          eyebrow(['Case study', card.clientOrProject, card.year], palette),
+          title(card.title, 3, palette),
+          outcomes.length > 0
+            ? el('div', { display: 'flex', gap: 20 }, outcomes.map((o) =>
+                el('div', { display: 'flex', flexDirection: 'column', minWidth: 240, padding: '14px 18px', borderRadius: 12, backgroundColor: palette.chip }, [
+                  el('div', { display: 'flex', fontSize: 36, fontWeight: 600, color: palette.fg }, o.value),
+                  el('div', { display: 'block', fontSize: 20, color: palette.sub, lineClamp: 1 }, o.metric),
+                ])))
+            : summary(card.summary, palette),
+        ]),
+        footer(await iconImages(card.techIcons.slice(0, 8), palette, cacheDir), palette),
+      ];
+    }
+    case 'page':
+      return [
+        el('div', { display: 'flex', flexDirection: 'column', gap: 20 }, [
+          eyebrow([card.eyebrow], palette),
+          title(card.title, 3, palette),
+          ...(card.subtitle ? [summary(card.subtitle, palette)] : []),
+        ]),
+        footer([], palette),
+      ];
+  }
+}
+
+type SatoriOptions = Parameters<typeof satori>[1];
+
+async function loadSatoriOptions(): Promise<{ options: SatoriOptions; fontHash: string }> {
+  // Use static TTFs (Regular and SemiBold) instead of the variable font to avoid fvar parsing issues in satori/opentype
+  const notoFontRegular = await readFile(path.resolve('public/fonts/NotoSans-Regular.ttf'));
+  const notoFontSemiBold = await readFile(path.resolve('public/fonts/NotoSans-SemiBold.ttf'));
+  return {
+    options: {
+      width: OG_WIDTH,
+      height: OG_HEIGHT,
+      fonts: [
+        { name: 'Noto Sans', data: notoFontRegular, weight: 400, style: 'normal' },
+        { name: 'Noto Sans', data: notoFontSemiBold, weight: 600, style: 'normal' },
+      ],
+    },
+    fontHash: createHash('sha256').update(notoFontRegular).update(notoFontSemiBold).digest('hex'),
+  };
+}
+
+// Fonts are read once per process, not once per image
+let satoriOptions: ReturnType<typeof loadSatoriOptions> | undefined;
+
+/**
+ * 1200×630 PNG for `card`. PNGs are cached in `cacheDir` under a hash of the element tree (text,
+ * styles and inlined icons) plus the fonts, so unchanged cards skip satori and resvg on the next
+ * build; pass `null` to always render.
+ */
+export async function renderOgImage(card: OgCard, theme: OgTheme = 'light', cacheDir: string | null = OG_CACHE_DIR): Promise<Buffer> {
+  const palette = PALETTES[theme];
+  const tree = el('div', {
+    width: `${OG_WIDTH}px`,
+    height: `${OG_HEIGHT}px`,
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'space-between',
+    padding: `${PADDING}px`,
+    fontFamily: 'Noto Sans',
+    // Soft base color with subtle, baked-in gradients
+    background:
+      `radial-gradient(1200px 700px at 70% -10%, ${palette.g1}, rgba(0,0,0,0) 60%),\
+       radial-gradient(1000px 550px at -10% 20%, ${palette.g2}, rgba(0,0,0,0) 55%)`,
+    backgroundColor: palette.base,
+    color: palette.fg,
+  }, await cardBody(card, palette, cacheDir));
+  const { options, fontHash } = await (satoriOptions ??= loadSatoriOptions());
+  const file = cacheDir && path.join(cacheDir, `${createHash('sha256').update(fontHash).update(JSON.stringify(tree)).digest('hex')}.png`);
+  if (file) {
+    const cached = await readFile(file).catch(() => null);
+    if (cached) return cached;
+  }
+  const png = new Resvg(await satori(tree, options)).render().asPng();
+  if (file) {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, png);
+  }
+  return png;
+}
@@ -0,0 +1,14 @@
+import type { CollectionEntry } from 'astro:content';
+
+export type PostMeta = {
+  wordCount: number;
+  readingTime: string;
+  /** Frontmatter `updatedAt`, else the last git commit touching the file */
+  updatedAt: string;
+};
+
+/** Values remarkContentMeta computed while rendering the entry (rendering is cached per build). */
+export async function postMeta(post: CollectionEntry<'writing'> | CollectionEntry<'work'>): Promise<PostMeta> {
+  const { remarkPluginFrontmatter: fm } = await post.render();
+  return { wordCount: fm.wordCount, readingTime: fm.readingTime, updatedAt: fm.lastModified };
+}
@@ -0,0 +1,101 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+export type GlossaryTerm = { id: string; term: string; aliases: string[]; definition: string };
+
+type Node = {
+  type: string;
+  tagName?: string;
+  name?: string | null;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: Node[];
+};
+
+// Text under these is never linked: existing links, code, headings and earlier glossary markup
+const SKIPPED_TAGS = new Set(['a', 'code', 'pre', 'kbd', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'script', 'style', 'svg', 'abbr', 'dfn']);
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Reads src/content/glossary/*.json directly: markdown plugins run while the content layer is
+ * still loading, so getCollection('glossary') is not available to them.
+ */
+export function loadGlossary(dir = path.resolve('src/content/glossary')): GlossaryTerm[] {
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const data = JSON.parse(readFileSync(path.join(dir, file), 'utf8'));
+      return { id: path.basename(file, '.json'), term: data.term, aliases: data.aliases ?? [], definition: data.definition };
+    });
+}
+
+/** One case-insensitive pattern over every spelling, longest first so "RPC Handler" wins over "RPC". */
+function glossaryMatcher(terms: GlossaryTerm[]) {
+  const bySpelling = new Map<string, GlossaryTerm>();
+  for (const term of terms) {
+    for (const spelling of [term.term, ...term.aliases]) bySpelling.set(spelling.toLowerCase(), term);
+  }
+  const alternatives = [...bySpelling.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\w-])(${alternatives.join('|')})(?:e?s)?(?![\\w-])`, 'gi');
+  return { pattern, termFor: (match: string) => bySpelling.get(match.toLowerCase())! };
+}
+
+function termLink(term: GlossaryTerm, text: string): Node {
+  const tipId = `glossary-tip-${term.id}`;
+  return {
+    type: 'element',
+    tagName: 'span',
+    properties: { className: ['glossary-term'] },
+    children: [
+      { type: 'element', tagName: 'a', properties: { href: `/glossary#${term.id}`, ariaDescribedBy: tipId }, children: [{ type: 'text', value: text }] },
+      { type: 'element', tagName: 'span', properties: { id: tipId, role: 'tooltip', className: ['glossary-tip'] }, children: [{ type: 'text', value: term.definition }] },
+    ],
+  };
+}
+
+/**
+ * Links the first mention of each glossary term in a document to /glossary#<id>, with the
+ * definition in a role="tooltip" element the link is described by (shown on hover and focus).
+ */
+export function rehypeGlossary(options: { terms?: GlossaryTerm[] } = {}) {
+  let matcher: ReturnType<typeof glossaryMatcher> | undefined;
+  return (tree: Node) => {
+    matcher ??= glossaryMatcher(options.terms ?? loadGlossary());
+    const { pattern, termFor } = matcher;
+    const linked = new Set<string>();
+
+    const visit = (node: Node) => {
+      if (!node.children) return;
+      const children: Node[] = [];
+      for (const child of node.children) {
+        if (child.type === 'text' && child.value) {
+          children.push(...linkText(child.value));
+        } else {
+          if (!SKIPPED_TAGS.has(child.tagName ?? child.name ?? '')) visit(child);
+          children.push(child);
+        }
+      }
+      node.children = children;
+    };
+
+    const linkText = (value: string): Node[] => {
+      const out: Node[] = [];
+      let last = 0;
+      for (const match of value.matchAll(pattern)) {
+        const term = termFor(match[1]);
+        if (linked.has(term.id)) continue;
+        linked.add(term.id);
+        if (match.index > last) out.push({ type: 'text', value: value.slice(last, match.index) });
+        out.push(termLink(term, match[0]));
+        last = match.index + match[0].length;
+      }
+      if (last === 0) return [{ type: 'text', value }];
+      if (last < value.length) out.push({ type: 'text', value: value.slice(last) });
+      return out;
+    };
+
+    visit(tree);
+  };
+}
@@ -0,0 +1,68 @@
+import type { CollectionEntry } from 'astro:content';
+import { cosineSimilarity, tfidfVectors, toWords } from '../../scripts/seo-audit';
+import { getContentGraph, referencedBy, resolveRefs } from './content-graph';
+import { markdownText } from './search';
+
+type Item = CollectionEntry<'writing'> | CollectionEntry<'work'>;
+
+export type RelatedItem = {
+  entry: Item;
+  url: string;
+  kind: 'writing' | 'work';
+  /** Linked in frontmatter (relatedWorkSlug, either direction), or ranked by similarity */
+  reason: 'explicit' | 'similar';
+  score: number;
+};
+
+// Tags are repeated so a shared tag outweighs a few incidental shared words
+const TAG_WEIGHT = 3;
+// Below this cosine similarity two pieces have little more than vocabulary in common
+export const MIN_SIMILARITY = 0.1;
+
+const itemKey = (entry: Item) => `${entry.collection}/${entry.slug}`;
+const itemUrl = (entry: Item) => `/${entry.collection}/${entry.slug}`;
+
+/** Words an entry is compared on: its body prose plus tags (writing) or tech (work). */
+export function relatedTerms(body: string, tags: string[]): string[] {
+  return [...toWords(markdownText(body).text), ...Array.from({ length: TAG_WEIGHT }, () => tags.flatMap(toWords)).flat()];
+}
+
+async function buildVectors(): Promise<{ items: Item[]; vectors: Map<string, Map<string, number>> }> {
+  const { entries } = await getContentGraph();
+  const items: Item[] = [...[...entries.writing.values()].filter((p) => !p.data.hide), ...entries.work.values()];
+  const vectors = tfidfVectors(items.map((entry) => ({
+    id: itemKey(entry),
+    terms: relatedTerms(entry.body, entry.collection === 'writing' ? entry.data.tags : entry.data.tech.map((t) => t.id)),
+  })));
+  return { items, vectors };
+}
+
+let corpus: ReturnType<typeof buildVectors> | undefined;
+
+async function explicitRelations(entry: Item): Promise<Item[]> {
+  if (entry.collection === 'writing') return resolveRefs('work', entry.data.relatedWorkSlug);
+  return (await referencedBy('writing', 'relatedWorkSlug', entry)).filter((p) => !p.data.hide);
+}
+
+/**
+ * Up to `limit` writing and work entries related to `entry`: frontmatter relations first, then the
+ * rest of both collections by TF-IDF cosine similarity (the audit's vectors) above MIN_SIMILARITY.
+ */
+export async function relatedContent(entry: Item, limit = 4): Promise<RelatedItem[]> {
+  const { items, vectors } = await (corpus ??= buildVectors());
+  const self = vectors.get(itemKey(entry)) ?? new Map<string, number>();
+  const score = (other: Item) => cosineSimilarity(self, vectors.get(itemKey(other)) ?? new Map());
+  const explicit = await explicitRelations(entry);
+  const taken = new Set([itemKey(entry), ...explicit.map(itemKey)]);
+  const similar = items
+    .filter((other) => !taken.has(itemKey(other)))
+    .map((other) => ({ other, score: score(other) }))
+    .filter((s) => s.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score || itemKey(a.other).localeCompare(itemKey(b.other)));
+  return [
+    ...explicit.map((other) => ({ other, score: score(other), reason: 'explicit' as const })),
+    ...similar.map((s) => ({ ...s, reason: 'similar' as const })),
+  ]
+    .slice(0, limit)
+    .map(({ other, score, reason }) => ({ entry: other, url: itemUrl(other), kind: other.collection, reason, score }));
+}
@@ -0,0 +1,76 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { countWords } from '../../scripts/count-words';
+
+export const WORDS_PER_MINUTE = 230;
+
+type Node = { type: string; value?: string; children?: Node[] };
+type VFile = { path?: string; data: { astro?: { frontmatter?: Record<string, unknown> } } };
+
+// Not read as prose: code, raw HTML and MDX imports/expressions (the audit strips the same)
+const SKIPPED_NODES = new Set(['code', 'inlineCode', 'html', 'yaml', 'mdxjsEsm', 'mdxFlowExpression', 'mdxTextExpression']);
+
+function proseText(node: Node): string {
+  if (SKIPPED_NODES.has(node.type)) return '';
+  if (typeof node.value === 'string') return node.value;
+  return (node.children ?? []).map(proseText).join(' ');
+}
+
+const lastCommitDates = new Map<string, string | undefined>();
+const shallowCheckouts = new Map<string, boolean>();
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+}
+
+// A shallow clone (CI's default fetch depth of 1) has every file last touched by the one commit it holds
+function isShallowCheckout(dir: string): boolean {
+  if (!shallowCheckouts.has(dir)) shallowCheckouts.set(dir, git(['rev-parse', '--is-shallow-repository'], dir) === 'true');
+  return shallowCheckouts.get(dir)!;
+}
+
+/**
+ * ISO date of the last commit touching `file`, or undefined outside a git checkout or in a shallow
+ * clone, where that date would be the same for every file. Builds that should carry real dates
+ * need the full history (e.g. `fetch-depth: 0` with actions/checkout).
+ */
+export function gitLastModified(file: string): string | undefined {
+  if (!lastCommitDates.has(file)) {
+    const dir = path.dirname(file);
+    let date: string | undefined;
+    try {
+      date = isShallowCheckout(dir) ? undefined : git(['log', '-1', '--format=%cI', '--', path.basename(file)], dir) || undefined;
+    } catch {
+      date = undefined;
+    }
+    lastCommitDates.set(file, date);
+  }
+  return lastCommitDates.get(file);
+}
+
+/**
+ * Adds `wordCount`, `readingTime` ("7 min") and `lastModified` (frontmatter `updatedAt`, else the
+ * file's last commit) to each entry's remarkPluginFrontmatter; read them with postMeta().
+ */
+export function remarkContentMeta() {
+  return (tree: Node, file: VFile) => {
+    const frontmatter = file.data.astro?.frontmatter;
+    if (!frontmatter) return;
+    const words = countWords(proseText(tree));
+    frontmatter.wordCount = words;
+    frontmatter.readingTime = `${Math.max(1, Math.round(words / WORDS_PER_MINUTE))} min`;
+    const override = typeof frontmatter.updatedAt === 'string' ? frontmatter.updatedAt : undefined;
+    frontmatter.lastModified = override ?? (file.path ? gitLastModified(file.path) : undefined) ?? frontmatter.publishedAt;
+  };
+}
+
+/** Sitemap `lastmod` for /writing/<slug>/ and /work/<slug>/ pages, on the same terms as remarkContentMeta. */
+export function lastModifiedForUrl(url: string, contentDir = path.resolve('src/content')): string | undefined {
+  const match = /^\/(writing|work)\/([^/]+)\/?$/.exec(new URL(url).pathname);
+  if (!match) return undefined;
+  const file = path.join(contentDir, match[1], `${match[2]}.mdx`);
+  if (!existsSync(file)) return undefined;
+  const override = /^updatedAt:\s*["']?([^"'\n]+)["']?\s*$/m.exec(readFileSync(file, 'utf8').split(/^---\s*$/m)[1] ?? '');
+  return override?.[1] ?? gitLastModified(file);
+}
@@ -0,0 +1,203 @@
+import { normalizeTerm } from '../../scripts/normalize-term';
+
+// Function words only: unlike the SEO audit's stopwords, names like "github" or "api" stay searchable
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were', 'with', 'you',
+]);
+
+/** Occurrence weight per field; a term's weight in a document is the sum over its occurrences. */
+export const FIELD_WEIGHTS = { title: 8, headings: 4, summary: 2, body: 1 } as const;
+
+/** Characters of each section's prose shipped for snippets; the rest is only indexed. */
+export const EXCERPT_LENGTH = 160;
+
+export type SearchDocument = {
+  url: string;
+  kind: 'writing' | 'work';
+  title: string;
+  summary: string;
+  /** Headings and tags */
+  headings: string[];
+  /** Plain prose, one entry per section: before the first heading, then under each */
+  sections: string[];
+};
+
+/**
+ * Wire format of /search-index.json, kept terse because every byte is downloaded:
+ * docs[i] = { u: url, k: kind, t: title, s: summary, x: opening of each section }, and
+ * terms[stem] = [doc, weight, doc, weight, ...] with docs in ascending order.
+ */
+export type SearchIndex = {
+  docs: Array<{ u: string; k: SearchDocument['kind']; t: string; s: string; x: string[] }>;
+  terms: Record<string, number[]>;
+};
+
+export type SearchResult = { doc: SearchIndex['docs'][number]; score: number };
+
+type QueryWord = { word: string; stem: string };
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 1 && !STOPWORDS.has(w));
+}
+
+/** Index terms for a text: the audit's normalizeTerm stemming over lowercase alphanumeric words. */
+export function searchTerms(text: string): string[] {
+  return words(text).map(normalizeTerm).filter(Boolean);
+}
+
+function queryWords(query: string): QueryWord[] {
+  return words(query).map((word) => ({ word, stem: normalizeTerm(word) }));
+}
+
+// A prefix of the typed word or of its stem: "deplo" finds "deploy" (stem "deploi")
+const matchesWord = (term: string, q: QueryWord) => term.startsWith(q.stem) || term.startsWith(q.word);
+
+/**
+ * Headings and prose of an MDX body, whole and per section; code, imports/exports, JSX tags and
+ * expressions are dropped.
+ */
+export function markdownText(body: string): { headings: string[]; sections: string[]; text: string } {
+  const headings: string[] = [];
+  const prose = body
+    .replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1\s*$/gm, ' ')
+    .replace(/^(import|export)\s.*$/gm, ' ')
+    .replace(/^#{1,6}\s+(.+)$/gm, (_, heading: string) => {
+      headings.push(heading.replace(/[*_`]/g, '').trim());
+      return ' \u0000 ';
+    })
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\{[^{}]*\}/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s*(>\s*)*([-*+]|\d+\.)?\s+/gm, '')
+    .replace(/[*_~|]+/g, ' ')
+    .replace(/\s+/g, ' ');
+  const sections = prose.split('\u0000').map((s) => s.trim()).filter(Boolean);
+  return { headings, sections, text: sections.join(' ') };
+}
+
+/** The first `length` characters of `text`, cut back to a word boundary. */
+function excerpt(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const end = text.lastIndexOf(' ', length);
+  return `${text.slice(0, end > 0 ? end : length)}…`;
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  // No prototype: "constructor" is a term like any other
+  const terms: Record<string, number[]> = Object.create(null);
+  documents.forEach((doc, i) => {
+    const weights = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const term of searchTerms(text)) weights.set(term, (weights.get(term) ?? 0) + weight);
+    };
+    add(doc.title, FIELD_WEIGHTS.title);
+    doc.headings.forEach((h) => add(h, FIELD_WEIGHTS.headings));
+    add(doc.summary, FIELD_WEIGHTS.summary);
+    doc.sections.forEach((s) => add(s, FIELD_WEIGHTS.body));
+    for (const [term, weight] of weights) (terms[term] ??= []).push(i, weight);
+  });
+  return {
+    docs: documents.map((d) => ({ u: d.url, k: d.kind, t: d.title, s: d.summary, x: d.sections.map((s) => excerpt(s, EXCERPT_LENGTH)) })),
+    terms,
+  };
+}
+
+/**
+ * Documents containing every query word (exact stem, or any indexed term it prefixes), ranked by
+ * Σ (1 + ln weight) × idf. Prefix-only matches count half so "test" ranks "test" above "testnet".
+ */
+export function searchIndex(index: SearchIndex, query: string, limit = 20): SearchResult[] {
+  const qs = queryWords(query);
+  if (qs.length === 0) return [];
+  const total = index.docs.length;
+  let scores: Map<number, number> | undefined;
+  for (const q of qs) {
+    const best = new Map<number, number>();
+    for (const [term, postings] of Object.entries(index.terms)) {
+      if (!matchesWord(term, q)) continue;
+      const idf = Math.log(1 + total / (postings.length / 2));
+      const exact = term === q.stem ? 1 : 0.5;
+      for (let i = 0; i < postings.length; i += 2) {
+        const score = (1 + Math.log(postings[i + 1])) * idf * exact;
+        if (score > (best.get(postings[i]) ?? 0)) best.set(postings[i], score);
+      }
+    }
+    scores = scores
+      ? new Map([...scores].filter(([doc]) => best.has(doc)).map(([doc, s]) => [doc, s + best.get(doc)!]))
+      : best;
+    if (scores.size === 0) return [];
+  }
+  return [...scores!]
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, limit)
+    .map(([doc, score]) => ({ doc: index.docs[doc], score }));
+}
+
+export type SnippetPart = { text: string; match: boolean };
+
+/** `text` split into runs, with the words matching the query marked. */
+export function highlight(text: string, query: string): SnippetPart[] {
+  const qs = queryWords(query);
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  for (const m of text.matchAll(/[A-Za-z0-9]+/g)) {
+    const word = m[0].toLowerCase();
+    if (word.length < 2 || !qs.some((q) => matchesWord(word, q) || matchesWord(normalizeTerm(word), q))) continue;
+    if (m.index > last) parts.push({ text: text.slice(last, m.index), match: false });
+    parts.push({ text: m[0], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
+
+/** The section excerpt to build a result's snippet from: the first one matching the query, else the summary. */
+export function excerptFor(doc: SearchIndex['docs'][number], query: string): string {
+  return doc.x.find((text) => highlight(text, query).some((p) => p.match)) ?? doc.s;
+}
+
+/** About `length` characters of `text` around the first match, highlighted; the opening when nothing matches. */
+export function snippet(text: string, query: string, length = 180): SnippetPart[] {
+  const whole = highlight(text, query);
+  const first = whole.findIndex((p) => p.match);
+  const offset = whole.slice(0, Math.max(0, first)).reduce((n, p) => n + p.text.length, 0);
+  let start = Math.max(0, offset - Math.floor(length / 3));
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+  const parts = highlight(text.slice(start, end), query);
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+/** Appends snippet parts to `el`, matches wrapped in <mark>. Text only, so content can't inject markup. */
+export function renderHighlighted(el: HTMLElement, parts: SnippetPart[]) {
+  for (const part of parts) {
+    if (!part.match) {
+      el.append(part.text);
+      continue;
+    }
+    const mark = document.createElement('mark');
+    mark.textContent = part.text;
+    el.append(mark);
+  }
+}
+
+let loaded: Promise<SearchIndex> | undefined;
+
+/** Fetches /search-index.json once per page (again after a failure). */
+export function loadSearchIndex(): Promise<SearchIndex> {
+  return (loaded ??= fetch('/search-index.json')
+    .then((res) => {
+      if (!res.ok) throw new Error(`Search index unavailable (${res.status})`);
+      return res.json();
+    })
+    .catch((error) => {
+      loaded = undefined;
+      throw error;
+    }));
+}
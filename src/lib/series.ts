@@ -0,0 +1,55 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+
+type Post = CollectionEntry<'writing'>;
+
+export type Series = {
+  name: string;
+  /** URL segment: /series/<slug> */
+  slug: string;
+  /** Published (non-hidden) parts in seriesOrder */
+  parts: Post[];
+};
+
+export const seriesSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+async function buildSeries(): Promise<Map<string, Series>> {
+  const posts = await getCollection('writing', ({ data }) => !data.hide && data.series !== undefined);
+  const bySlug = new Map<string, Series>();
+  const problems: string[] = [];
+  for (const post of posts) {
+    const name = post.data.series!;
+    const slug = seriesSlug(name);
+    const series = bySlug.get(slug) ?? { name, slug, parts: [] };
+    if (series.name !== name) problems.push(`writing/${post.slug} series "${name}" collides with "${series.name}" (/series/${slug})`);
+    series.parts.push(post);
+    bySlug.set(slug, series);
+  }
+  for (const series of bySlug.values()) {
+    series.parts.sort((a, b) => a.data.seriesOrder! - b.data.seriesOrder!);
+    series.parts.forEach((post, i) => {
+      const before = series.parts[i - 1];
+      if (before?.data.seriesOrder === post.data.seriesOrder) {
+        problems.push(`writing/${post.slug} and writing/${before.slug} are both part ${post.data.seriesOrder} of "${series.name}"`);
+      }
+    });
+  }
+  if (problems.length) {
+    throw new Error(`Invalid writing series (${problems.length}):\n  ${problems.join('\n  ')}`);
+  }
+  return bySlug;
+}
+
+let series: Promise<Map<string, Series>> | undefined;
+
+/** Every series keyed by slug, checked once per build like the content graph. */
+export function getSeries(): Promise<Map<string, Series>> {
+  return (series ??= buildSeries());
+}
+
+/** The series a post belongs to and its 1-based position among the published parts. */
+export async function seriesOf(post: Post): Promise<{ series: Series; position: number } | undefined> {
+  if (post.data.series === undefined) return undefined;
+  const found = (await getSeries()).get(seriesSlug(post.data.series));
+  const index = found?.parts.findIndex((p) => p.slug === post.slug) ?? -1;
+  return found && index >= 0 ? { series: found, position: index + 1 } : undefined;
+}
@@ -0,0 +1,21 @@
+// Work frontmatter lists tech the way it reads in prose ("Ethers.js (JsonRpcProvider)");
+// these map other spellings of the same technology to its id in src/content/technologies. Keys
+// are slugified names.
+export const TECH_ALIASES: Record<string, string> = {
+  'node-js': 'nodejs',
+  'next-js': 'nextjs',
+  'drizzle-orm': 'drizzle',
+  'ethers-js': 'ethers',
+  'ethers-js-jsonrpcprovider': 'ethers',
+  'foundry-anvil': 'foundry',
+  'supabase-pgvector': 'supabase',
+  'openzeppelin-defender-relay': 'openzeppelin',
+  'openrouter-claude-3-5-sonnet': 'openrouter',
+  'oauth': 'oauth2',
+};
+
+/** Technology id for a display name: "Cloudflare Workers" → "cloudflare-workers", then aliases. */
+export function techId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return TECH_ALIASES[slug] ?? slug;
+}
@@ -0,0 +1,91 @@
+import { getCollection, getEntry } from 'astro:content';
+import type { APIContext } from 'astro';
+import { getContentGraph, resolveRefs } from '../../../lib/content-graph';
+import { techLandings } from '../../../lib/landing-pages';
+import { OG_THEMES, renderOgImage, type OgCard, type OgTheme } from '../../../lib/og';
+import { postMeta } from '../../../lib/post-meta';
+
+// Cards for top-level pages that have no entry behind them
+const PAGE_CARDS: Record<string, OgCard> = {
+  index: { kind: 'page', eyebrow: 'Keyrxng', title: 'Software engineer: AI, Web3, systems & tooling', subtitle: 'Pragmatic software systems, shipped fast without sacrificing reliability.' },
+  stack: { kind: 'page', eyebrow: 'Stack', title: 'Tools chosen to fit constraints', subtitle: 'Frequent picks across AI, Web3, auth and platform work, with notes and related case studies.' },
+  about: { kind: 'page', eyebrow: 'About', title: 'Systems engineer focused on pragmatic reliability', subtitle: 'Upgrade safety, testing, and calm release tooling.' },
+  404: { kind: 'page', eyebrow: '404', title: 'Page not found', subtitle: 'The page you’re looking for doesn’t exist.' },
+};
+
+export async function getStaticPaths() {
+  const writing = await getCollection('writing', ({ data }) => !data.hide);
+  const work = await getCollection('work');
+  const tags = new Set(writing.flatMap((w) => w.data.tags));
+  const competencies = await getCollection('competencies');
+  const cards = [
+    ...writing.map((w) => ({ type: 'writing', slug: w.slug })),
+    ...work.map((w) => ({ type: 'work', slug: w.slug })),
+    ...[...tags].map((tag) => ({ type: 'tag', slug: tag })),
+    ...(await techLandings()).map(({ entry }) => ({ type: 'tech', slug: entry.id })),
+    ...competencies.map((c) => ({ type: 'competency', slug: c.id })),
+    ...Object.keys(PAGE_CARDS).map((page) => ({ type: 'page', slug: page })),
+  ];
+  // Light cards keep the bare /og/<type>-<slug>.png URLs; dark ones live under /og/dark/
+  return OG_THEMES.flatMap((theme) => cards.map((card) => ({
+    params: { ...card, theme: theme === 'light' ? undefined : theme },
+    props: { theme },
+  })));
+}
+
+async function cardFor(type: string, slug: string): Promise<OgCard | undefined> {
+  switch (type) {
+    case 'writing': {
+      const entry = await getEntry('writing', slug);
+      if (!entry) return undefined;
+      const { readingTime } = await postMeta(entry);
+      const { title, summary, publishedAt, tags } = entry.data;
+      return { kind: 'writing', title, summary, publishedAt, readingTime, tags };
+    }
+    case 'work': {
+      const entry = await getEntry('work', slug);
+      if (!entry) return undefined;
+      const tech = await resolveRefs('technologies', entry.data.tech);
+      return {
+        kind: 'work',
+        title: entry.data.title,
+        summary: entry.data.summary,
+        clientOrProject: entry.data.clientOrProject,
+        year: entry.data.year,
+        outcomes: (entry.data.outcomes ?? []).map((o) => ({ value: `${o.value}${o.unit ? ` ${o.unit}` : ''}`, metric: o.metric })),
+        techIcons: tech.flatMap((t) => (t.data.icon ? [{ name: t.data.name, icon: t.data.icon }] : [])),
+      };
+    }
+    case 'tag': {
+      const posts = (await getCollection('writing', ({ data }) => !data.hide && data.tags.includes(slug)))
+        .sort((a, b) => new Date(b.data.publishedAt).getTime() - new Date(a.data.publishedAt).getTime());
+      if (posts.length === 0) return undefined;
+      return { kind: 'page', eyebrow: `Tag · ${posts.length} post${posts.length === 1 ? '' : 's'}`, title: `#${slug}`, subtitle: `Latest: ${posts[0].data.title}` };
+    }
+    case 'tech': {
+      const tech = (await getContentGraph()).entries.technologies.get(slug);
+      if (!tech) return undefined;
+      const { name, category, area, notes } = tech.data;
+      return { kind: 'page', eyebrow: `Stack · ${category} · ${area}`, title: name, subtitle: notes };
+    }
+    case 'competency': {
+      const competency = (await getContentGraph()).entries.competencies.get(slug);
+      if (!competency) return undefined;
+      return { kind: 'page', eyebrow: 'Competency', title: competency.data.name, subtitle: competency.data.summary };
+    }
+    case 'page':
+      return PAGE_CARDS[slug];
+  }
+}
+
+export async function GET({ params, props }: APIContext<{ theme: OgTheme }>) {
+  const { type, slug } = params as { type: string; slug: string };
+  const { theme } = props;
+  const card = await cardFor(type, slug);
+  if (!card) return new Response('Not found', { status: 404 });
+  const png = await renderOgImage(card, theme);
+  // Ensure body is a Uint8Array (Buffer is a subclass but TS types for Response may complain)
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=86400' },
+  });
+}
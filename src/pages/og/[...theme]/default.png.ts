@@ -0,0 +1,19 @@
+import type { APIContext } from 'astro';
+import { OG_THEMES, renderOgImage, type OgTheme } from '../../../lib/og';
+
+export function getStaticPaths() {
+  return OG_THEMES.map((theme) => ({ params: { theme: theme === 'light' ? undefined : theme }, props: { theme } }));
+}
+
+// Fallback card for pages that don't pass their own ogImage to BaseLayout
+export async function GET({ props }: APIContext<{ theme: OgTheme }>) {
+  const png = await renderOgImage({
+    kind: 'page',
+    eyebrow: 'Keyrxng',
+    title: 'Product-focused engineering across AI, Web3 and tooling',
+    subtitle: 'Case studies, field notes and architecture write-ups.',
+  }, props.theme);
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=86400' },
+  });
+}
@@ -1,23 +1,28 @@
 import rss from '@astrojs/rss';
 import { getCollection } from 'astro:content';
+import { postMeta } from '../lib/post-meta';
 
 export async function GET(context) {
   const site = 'https://keyrxng.xyz';
   const posts = (await getCollection('writing', ({ data }) => !data.hide))
     .sort((a, b) => new Date(b.data.publishedAt).getTime() - new Date(a.data.publishedAt).getTime())
     .slice(0, 50);
+  const meta = await Promise.all(posts.map((post) => postMeta(post)));
   return rss({
     title: 'Keyrxng — Writing',
     description: 'Field notes, architectural patterns, reliability, testing, context shaping, and pragmatic post-mortems.',
     site,
-    xmlns: { atom: 'http://www.w3.org/2005/Atom' },
+    xmlns: { atom: 'http://www.w3.org/2005/Atom', dcterms: 'http://purl.org/dc/terms/' },
     customData: `<atom:link href="${site}/rss.xml" rel="self" type="application/rss+xml" />`,
-    items: posts.map((post) => ({
+    items: posts.map((post, i) => ({
       title: post.data.title,
-      description: post.data.summary,
+      description: `${post.data.summary} (${meta[i].readingTime} read)`,
       link: `/writing/${post.slug}/`,
       pubDate: new Date(post.data.publishedAt),
-      customData: (post.data.tags && post.data.tags.length) ? post.data.tags.map((t) => `<category>${t}</category>`).join('') : undefined,
+      customData: [
+        `<dcterms:modified>${new Date(meta[i].updatedAt).toISOString()}</dcterms:modified>`,
+        ...(post.data.tags ?? []).map((t) => `<category>${t}</category>`),
+      ].join(''),
     })),
   });
 }
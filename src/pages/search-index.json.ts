@@ -0,0 +1,23 @@
+import { getCollection } from 'astro:content';
+import { buildSearchIndex, markdownText, type SearchDocument } from '../lib/search';
+
+// Inverted index for /search and the command palette; built once, queried in the browser
+export async function GET() {
+  const [writing, work] = await Promise.all([
+    getCollection('writing', ({ data }) => !data.hide),
+    getCollection('work'),
+  ]);
+  const documents: SearchDocument[] = [
+    ...writing.map((post) => {
+      const { headings, sections } = markdownText(post.body);
+      return { url: `/writing/${post.slug}`, kind: 'writing' as const, title: post.data.title, summary: post.data.summary, headings: [...headings, ...post.data.tags], sections };
+    }),
+    ...work.map((item) => {
+      const { headings, sections } = markdownText(item.body);
+      return { url: `/work/${item.slug}`, kind: 'work' as const, title: item.data.title, summary: item.data.summary, headings: [...headings, item.data.clientOrProject], sections };
+    }),
+  ];
+  return new Response(JSON.stringify(buildSearchIndex(documents)), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { generateReport, type Report } from '../scripts/seo-audit';
+
+describe('accessibility rules', () => {
+  let root: string;
+  let report: Report;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-a11y-'));
+    await fs.writeFile(path.join(root, 'index.html'), `<!doctype html><html><head><title>Accessibility fixture page</title></head><body>
+      <h1>Work</h1><h3>Problem</h3><h1>Second title</h1>
+      <a href="/about/">Read more</a> <a href="/contact/">Contact me</a> <a href="/"><svg aria-hidden="true"></svg></a>
+      <button class="chip" data-year="2024"></button> <button aria-label="Close">×</button> <button><img src="x.svg" alt="Search"></button>
+      <svg role="img" aria-labelledby="chart-title chart-desc"><title id="chart-title">Downloads</title></svg>
+      <img src="a.png" alt=""> <img src="b.png">
+    </body></html>`);
+    await fs.writeFile(path.join(root, 'post.md'), '# Post\n\n### Deep\n\nSee [here](/x) and ![](/y.png).\n');
+    report = await generateReport(root);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const messages = (file: string, ruleId: string) =>
+    report.documents.find(d => d.filePath.endsWith(file))!.warnings.filter(w => w.ruleId === ruleId).map(w => w.message);
+
+  it('flags the built page findings', () => {
+    expect(messages('index.html', 'a11y-heading-order')).toEqual(['Heading level skipped: H1 "Work" is followed by H3 "Problem"']);
+    expect(messages('index.html', 'a11y-multiple-h1')).toHaveLength(1);
+    expect(messages('index.html', 'a11y-link-text')).toEqual(['Vague link text "Read more" → /about/', 'Link without accessible name → /']);
+    expect(messages('index.html', 'a11y-html-lang')).toEqual(['Missing lang attribute on <html>']);
+    expect(messages('index.html', 'a11y-button-name')).toEqual(['Button without accessible name: <button class="chip" data-year="2024">']);
+    expect(messages('index.html', 'a11y-aria-labelledby')).toEqual(['<svg> aria-labelledby references missing id(s): chart-desc']);
+    expect(messages('index.html', 'a11y-img-alt')).toEqual(['1 image(s) without an alt attribute']);
+  });
+
+  it('checks headings, links and images in markdown', () => {
+    expect(messages('post.md', 'a11y-heading-order')).toHaveLength(1);
+    expect(messages('post.md', 'a11y-link-text')).toEqual(['Vague link text "here" → /x']);
+    expect(messages('post.md', 'a11y-img-alt')).toHaveLength(1);
+    expect(report.summary.accessibility['a11y-heading-order']).toHaveLength(2);
+  });
+});
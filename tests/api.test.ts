@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { generateReport, type RuleDefinition } from '../scripts/seo-audit';
+import seoAudit from '../scripts/seo-audit-integration';
+
+describe('generateReport checks', () => {
+  let root: string;
+  const checks: Record<string, RuleDefinition> = {
+    'no-todo': {
+      description: 'Page still contains a TODO marker',
+      defaults: { severity: 'error' },
+      check: d => (d.tfidfTerms.includes('todo') ? ['Remove the TODO before publishing'] : []),
+    },
+  };
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-api-'));
+    await fs.mkdir(path.join(root, 'drafts'));
+    await fs.writeFile(path.join(root, 'post.md'), '---\ntitle: "Post"\n---\n# Post\n\nTODO write the intro.\n');
+    await fs.writeFile(path.join(root, 'drafts/wip.md'), '---\ntitle: "Draft"\n---\n# Draft\n\nTODO everything.\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const findings = (report: Awaited<ReturnType<typeof generateReport>>) =>
+    report.documents.flatMap(d => d.warnings.filter(w => w.ruleId === 'no-todo').map(w => `${path.basename(d.filePath)} ${w.severity}`));
+
+  it('runs custom checks next to the built-in rules', async () => {
+    expect(findings(await generateReport({ rootDir: root, checks }))).toEqual(['wip.md error', 'post.md error']);
+  });
+
+  it('applies config severities and overrides to custom checks', async () => {
+    const config = { rules: { 'no-todo': 'warn' as const }, overrides: [{ files: 'drafts/**', rules: { 'no-todo': 'off' as const } }] };
+    expect(findings(await generateReport({ rootDir: root, config, checks }))).toEqual(['post.md warn']);
+  });
+
+  it('rejects checks that reuse a built-in rule ID', async () => {
+    await expect(generateReport({ rootDir: root, checks: { 'title-missing': checks['no-todo'] } })).rejects.toThrow(/title-missing/);
+  });
+});
+
+describe('seoAudit integration', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-integration-'));
+    await fs.writeFile(path.join(root, 'index.html'), '<html lang="en"><head></head><body><p>No title here.</p></body></html>');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const runBuildDone = (failOn: 'error' | 'never') => {
+    const logged: string[] = [];
+    const logger = { info: (m: string) => logged.push(m), error: (m: string) => logged.push(m) };
+    const hook = seoAudit({ failOn, outFile: null, cacheFile: null, sourceRoot: null }).hooks['astro:build:done']!;
+    // Only dir and logger are read by the hook
+    const run = hook({ dir: pathToFileURL(root + '/'), logger } as unknown as Parameters<typeof hook>[0]);
+    return { run, logged };
+  };
+
+  it('fails the build on error findings', async () => {
+    const { run, logged } = runBuildDone('error');
+    await expect(run).rejects.toThrow(/at or above "error"/);
+    expect(logged).toContain('index.html: [title-missing] Missing <title>');
+  });
+
+  it('only reports when failOn is never', async () => {
+    const { run, logged } = runBuildDone('never');
+    await expect(run).resolves.toBeUndefined();
+    expect(logged[0]).toMatch(/^1 files audited: \d+ errors/);
+  });
+});
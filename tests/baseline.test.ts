@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { compareReports, type Report } from '../scripts/seo-audit';
+
+function doc(filePath: string, overrides: Record<string, unknown> = {}) {
+  return {
+    filePath,
+    routeHint: '/',
+    headings: { h1: ['Title'], h2: [], h3: [] },
+    wordCount: 500,
+    sentenceCount: 25,
+    fleschReadingEase: 60,
+    fleschKincaidGrade: 9,
+    internalLinks: [],
+    externalLinks: [],
+    anchorIds: [],
+    canonicalUrls: [],
+    social: { ogImages: [], twitterImages: [] },
+    jsonLd: [],
+    jsonLdErrors: [],
+    imagesWithoutAlt: 0,
+    a11y: { headingOutline: [], vagueLinks: [], unnamedButtons: [], brokenLabelledBy: [], imagesMissingAlt: 0 },
+    resources: { stylesheets: [], scripts: [], images: [], fonts: [], renderBlocking: [] },
+    warnings: [] as Report['documents'][number]['warnings'],
+    tokens: [],
+    bigrams: [],
+    trigrams: [],
+    tfidfTerms: [],
+    targetKeywords: [],
+    gunningFog: 10,
+    smogIndex: 10,
+    colemanLiau: 10,
+    readabilitySections: [],
+    hardSentences: [],
+    ...overrides,
+  };
+}
+
+const warn = (ruleId: string, message: string) => ({ ruleId, severity: 'warn' as const, message });
+
+function report(rootDir: string, documents: ReturnType<typeof doc>[], summary: Partial<Report['summary']> = {}): Report {
+  return {
+    generatedAt: '2025-01-01T00:00:00.000Z',
+    rootDir,
+    documents,
+    summary: {
+      totalDocuments: documents.length,
+      vocabularySize: 0,
+      topUnigrams: [],
+      topBigrams: [],
+      topTrigrams: [],
+      pagesMissingTitle: [],
+      pagesMissingDescription: [],
+      pagesMissingH1: [],
+      duplicateTitles: [],
+      brokenLinks: [],
+      ...summary,
+    },
+  } as Report;
+}
+
+describe('compareReports', () => {
+  it('matches pages across different root directories', () => {
+    const before = report('/ci/dist', [doc('/ci/dist/a.html', { warnings: [warn('h1-missing', 'Missing H1 heading')] })]);
+    const after = report('/home/me/dist', [doc('/home/me/dist/a.html', { warnings: [warn('h1-missing', 'Missing H1 heading')] })]);
+    const c = compareReports(after, before);
+    expect(c.newWarnings).toEqual([]);
+    expect(c.regressionCount).toBe(0);
+  });
+
+  it('reports new and resolved warnings and newly missing metadata', () => {
+    const before = report('/d', [doc('/d/a.html', { warnings: [warn('title-length', 'Title length 70 (recommended 15-65)')] })]);
+    const after = report('/d', [doc('/d/a.html', { warnings: [warn('description-missing', 'Missing meta description')] })], {
+      pagesMissingDescription: ['/d/a.html'],
+    });
+    const c = compareReports(after, before);
+    expect(c.newWarnings).toEqual([{ page: 'a.html', ...warn('description-missing', 'Missing meta description') }]);
+    expect(c.resolvedWarnings).toEqual([{ page: 'a.html', ...warn('title-length', 'Title length 70 (recommended 15-65)') }]);
+    expect(c.newlyMissingDescription).toEqual(['a.html']);
+    // The missing description is both a new warning and newly missing metadata, but one regression
+    expect(c.regressionCount).toBe(1);
+  });
+
+  it('matches warnings on rule and subject rather than measured values', () => {
+    const sentence = (line: number, grade: string) =>
+      ({ ...warn('readability-sentence', `Line ${line}: 30-word sentence at grade ${grade}: "The long one."`), subject: 'The long one.' });
+    const before = report('/d', [doc('/d/a.html', { warnings: [
+      { ...warn('title-length', 'Title length 70 (recommended 15-65)'), subject: '' },
+      sentence(10, '17.2'),
+      warn('perf-render-blocking', 'Render-blocking stylesheet in <head>: /a.css'),
+    ] })]);
+    const after = report('/d', [doc('/d/a.html', { warnings: [
+      { ...warn('title-length', 'Title length 72 (recommended 15-65)'), subject: '' },
+      sentence(14, '17.9'),
+      warn('perf-render-blocking', 'Render-blocking stylesheet in <head>: /a.css'),
+      warn('perf-render-blocking', 'Render-blocking stylesheet in <head>: /b.css'),
+    ] })]);
+    const c = compareReports(after, before);
+    expect(c.newWarnings.map((w) => w.message)).toEqual(['Render-blocking stylesheet in <head>: /b.css']);
+    expect(c.resolvedWarnings).toEqual([]);
+    expect(c.regressionCount).toBe(1);
+  });
+
+  it('still counts newly missing metadata whose rule is switched off', () => {
+    const before = report('/d', [doc('/d/a.html')]);
+    const after = report('/d', [doc('/d/a.html', { headings: { h1: [], h2: [], h3: [] } })], { pagesMissingH1: ['/d/a.html'] });
+    expect(compareReports(after, before).regressionCount).toBe(1);
+  });
+
+  it('flags readability and word-count drops beyond the thresholds only', () => {
+    const before = report('/d', [doc('/d/a.html'), doc('/d/b.html')]);
+    const after = report('/d', [
+      doc('/d/a.html', { fleschReadingEase: 55, wordCount: 450 }),
+      doc('/d/b.html', { fleschReadingEase: 40, wordCount: 300 }),
+    ]);
+    const c = compareReports(after, before);
+    expect(c.metricRegressions.map((r) => `${r.page}:${r.metric}`)).toEqual(['b.html:fleschReadingEase', 'b.html:wordCount']);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { auditSourceFiles, generateReport, type Report } from '../scripts/seo-audit';
+
+const strip = (r: Report) => ({ ...r, generatedAt: '' });
+
+describe('generateReport cache', () => {
+  let dir: string;
+  let root: string;
+  let cacheFile: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-audit-'));
+    root = path.join(dir, 'content');
+    cacheFile = path.join(dir, 'cache.json');
+    await fs.mkdir(root);
+    await fs.writeFile(path.join(root, 'a.md'), '---\ntitle: "Ranking RPC endpoints by latency"\n---\n# Ranking\n\nLatency probes rank endpoints.\n');
+    await fs.writeFile(path.join(root, 'b.md'), '---\ntitle: "Rotating RPC endpoints on failure"\n---\n# Rotation\n\nA proxy rotates endpoints on error.\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('produces the same report warm as cold, including after an edit', async () => {
+    await generateReport({ rootDir: root, cacheFile });
+    const warm = await generateReport({ rootDir: root, cacheFile });
+    expect(strip(warm)).toEqual(strip(await generateReport(root)));
+
+    await fs.writeFile(path.join(root, 'b.md'), '---\ntitle: "Rotating RPC endpoints"\n---\n\nNo heading any more.\n');
+    const afterEdit = await generateReport({ rootDir: root, cacheFile });
+    expect(strip(afterEdit)).toEqual(strip(await generateReport(root)));
+    expect(afterEdit.documents.find((d) => d.filePath.endsWith('b.md'))?.title).toBe('Rotating RPC endpoints');
+  });
+
+  it('drops cached entries when the config changes', async () => {
+    const config = { rules: { 'title-length': { severity: 'error' as const, max: 20 } } };
+    const report = await generateReport({ rootDir: root, config, cacheFile });
+    expect(report.documents.some((d) => d.warnings.some((w) => w.ruleId === 'title-length' && w.severity === 'error'))).toBe(true);
+  });
+});
+
+describe('auditSourceFiles', () => {
+  it('covers every local module the audit imports, so editing one invalidates the cache', async () => {
+    const script = path.resolve('scripts/seo-audit.ts');
+    const imports = [...(await fs.readFile(script, 'utf8')).matchAll(/^import [^;]* from "(\.\/[^"]+)";$/gm)]
+      .map((m) => path.resolve('scripts', m[1].endsWith('.ts') ? m[1] : `${m[1]}.ts`));
+    expect(imports.length).toBeGreaterThan(0);
+    expect(auditSourceFiles().sort()).toEqual([script, ...imports].sort());
+  });
+});
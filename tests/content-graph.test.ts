@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { techId } from '../src/lib/tech-aliases';
+
+// getContentGraph() memoizes per module instance; each test loads a fresh one over `collections`
+let collections: Record<string, unknown[]> = {};
+vi.mock('astro:content', () => ({ getCollection: async (name: string) => collections[name] ?? [] }));
+
+const ref = (collection: string, id: string) => ({ collection, id });
+const work = (slug: string, tech: string[] = []) =>
+  ({ collection: 'work', id: `${slug}.mdx`, slug, data: { title: slug, tech: tech.map((t) => ref('technologies', t)) } });
+const post = (slug: string, relatedWorkSlug?: string) =>
+  ({ collection: 'writing', id: `${slug}.mdx`, slug, data: { title: slug, relatedWorkSlug: relatedWorkSlug && ref('work', relatedWorkSlug) } });
+const tech = (id: string, relatedWorkSlugs: string[] = []) =>
+  ({ collection: 'technologies', id, data: { name: id, relatedWorkSlugs: relatedWorkSlugs.map((s) => ref('work', s)) } });
+
+async function loadGraph() {
+  vi.resetModules();
+  return import('../src/lib/content-graph');
+}
+
+describe('content graph', () => {
+  beforeEach(() => {
+    collections = {
+      work: [work('rpc-handler', ['typescript']), work('web3-faucet', ['typescript', 'cloudflare-workers'])],
+      writing: [post('fail-fast-rpc', 'rpc-handler'), post('gasless-onboarding', 'web3-faucet'), post('notes')],
+      technologies: [tech('typescript'), tech('cloudflare-workers', ['web3-faucet', 'rpc-handler'])],
+    };
+  });
+
+  it('resolves references in the order listed and looks them up in reverse', async () => {
+    const { getContentGraph, referencedBy, resolveRefs } = await loadGraph();
+    const { entries } = await getContentGraph();
+    const workers = entries.technologies.get('cloudflare-workers')!;
+    expect((await resolveRefs('work', workers.data.relatedWorkSlugs)).map((w) => w.slug)).toEqual(['web3-faucet', 'rpc-handler']);
+    expect((await referencedBy('work', 'tech', entries.technologies.get('typescript')!)).map((w) => w.slug)).toEqual(['rpc-handler', 'web3-faucet']);
+    expect((await referencedBy('writing', 'relatedWorkSlug', entries.work.get('web3-faucet')!)).map((p) => p.slug)).toEqual(['gasless-onboarding']);
+    expect(await resolveRefs('work', undefined)).toEqual([]);
+  });
+
+  it('fails with every dangling slug', async () => {
+    collections.writing.push(post('orphan', 'libsodium-worker'));
+    collections.work.push(work('plugin-installer', ['yaml']));
+    const { getContentGraph } = await loadGraph();
+    await expect(getContentGraph()).rejects.toThrow(
+      'Dangling content references (2):\n' +
+      '  writing/orphan relatedWorkSlug → work/libsodium-worker\n' +
+      '  work/plugin-installer tech → technologies/yaml',
+    );
+  });
+});
+
+describe('techId', () => {
+  it('slugifies display names to technology ids', () => {
+    expect(techId('Cloudflare Workers')).toBe('cloudflare-workers');
+    expect(techId('  Viem ')).toBe('viem');
+  });
+
+  it('maps alternate spellings through TECH_ALIASES', () => {
+    expect(techId('Node.js')).toBe('nodejs');
+    expect(techId('Ethers.js (JsonRpcProvider)')).toBe('ethers');
+    expect(techId('Foundry/Anvil')).toBe('foundry');
+    expect(techId('Supabase + pgvector')).toBe('supabase');
+  });
+
+  it('leaves related but different technologies unaliased', () => {
+    expect(techId('Jest')).toBe('jest');
+    expect(techId('JSON-RPC')).toBe('json-rpc');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gitLastModified, remarkContentMeta, WORDS_PER_MINUTE } from '../src/lib/remark-content-meta';
+
+const paragraph = (words: number) => ({ type: 'paragraph', children: [{ type: 'text', value: Array(words).fill('word').join(' ') }] });
+
+describe('remarkContentMeta', () => {
+  it('counts prose words but not code or MDX imports', () => {
+    const tree = {
+      type: 'root',
+      children: [
+        { type: 'mdxjsEsm', value: "import Chart from '../components/Chart.astro'" },
+        paragraph(WORDS_PER_MINUTE * 3),
+        { type: 'code', value: Array(5000).fill('token').join(' ') },
+        { type: 'paragraph', children: [{ type: 'text', value: 'Call' }, { type: 'inlineCode', value: 'fetchAll()' }, { type: 'text', value: 'once.' }] },
+      ],
+    };
+    const frontmatter: Record<string, unknown> = { publishedAt: '2025-01-01', updatedAt: '2025-02-01' };
+    remarkContentMeta()(tree, { data: { astro: { frontmatter } } });
+    expect(frontmatter).toMatchObject({ wordCount: WORDS_PER_MINUTE * 3 + 2, readingTime: '3 min', lastModified: '2025-02-01' });
+  });
+
+  it('falls back to publishedAt without an override or git history', () => {
+    const frontmatter: Record<string, unknown> = { publishedAt: '2025-01-01' };
+    remarkContentMeta()({ type: 'root', children: [paragraph(10)] }, { data: { astro: { frontmatter } } });
+    expect(frontmatter).toMatchObject({ readingTime: '1 min', lastModified: '2025-01-01' });
+  });
+});
+
+describe('gitLastModified', () => {
+  let root: string;
+  const git = (cwd: string, args: string[], date = '2025-01-01T00:00:00Z') =>
+    execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@example.com', ...args], {
+      cwd, stdio: 'ignore', env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+    });
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'content-meta-'));
+    const full = path.join(root, 'full');
+    await fs.mkdir(full);
+    git(full, ['init', '-q']);
+    await fs.writeFile(path.join(full, 'old.mdx'), 'old');
+    git(full, ['add', '.']);
+    git(full, ['commit', '-qm', 'old'], '2024-03-01T00:00:00Z');
+    await fs.writeFile(path.join(full, 'new.mdx'), 'new');
+    git(full, ['add', '.']);
+    git(full, ['commit', '-qm', 'new'], '2025-06-01T00:00:00Z');
+    git(root, ['clone', '-q', '--depth', '1', `file://${full}`, 'shallow']);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('dates each file by its own last commit', () => {
+    expect(gitLastModified(path.join(root, 'full/old.mdx'))).toMatch(/^2024-03-01T/);
+    expect(gitLastModified(path.join(root, 'full/new.mdx'))).toMatch(/^2025-06-01T/);
+  });
+
+  it('gives no date in a shallow clone, where every file would share the newest one', () => {
+    expect(gitLastModified(path.join(root, 'shallow/old.mdx'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { generateReport, matchRobotsRule, parseRobots } from '../scripts/seo-audit';
+
+describe('robots.txt', () => {
+  const robots = parseRobots([
+    'User-agent: Googlebot',
+    'Disallow: /',
+    '',
+    'User-agent: *',
+    'Disallow: /drafts/',
+    'Allow: /drafts/public$',
+    'Disallow: /*.json',
+    'Sitemap: https://example.com/sitemap-index.xml',
+  ].join('\n'));
+
+  it('keeps the * group and sitemap directives', () => {
+    expect(robots.rules).toHaveLength(3);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap-index.xml']);
+    expect(parseRobots('User-agent: Googlebot\nDisallow: /\n', 'googlebot').rules).toEqual([{ allow: false, pattern: '/' }]);
+  });
+
+  it('applies the longest matching rule', () => {
+    expect(matchRobotsRule(robots.rules, '/drafts/wip/')?.allow).toBe(false);
+    expect(matchRobotsRule(robots.rules, '/drafts/public')?.allow).toBe(true);
+    expect(matchRobotsRule(robots.rules, '/drafts/public/more')?.allow).toBe(false);
+    expect(matchRobotsRule(robots.rules, '/data/feed.json')?.pattern).toBe('/*.json');
+    expect(matchRobotsRule(robots.rules, '/writing/')).toBeNull();
+  });
+});
+
+describe('crawlability report', () => {
+  let root: string;
+  const page = (title: string, extraHead = '') =>
+    `<html><head><title>${title}</title>${extraHead}</head><body><h1>${title}</h1></body></html>`;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-crawl-'));
+    for (const dir of ['listed', 'unlisted', 'hidden', 'drafts/wip']) await fs.mkdir(path.join(root, dir), { recursive: true });
+    await fs.writeFile(path.join(root, 'index.html'), page('Home'));
+    await fs.writeFile(path.join(root, 'listed/index.html'), page('Listed'));
+    await fs.writeFile(path.join(root, 'unlisted/index.html'), page('Unlisted'));
+    await fs.writeFile(path.join(root, 'hidden/index.html'), page('Hidden', '<meta name="robots" content="noindex, follow">'));
+    await fs.writeFile(path.join(root, 'drafts/wip/index.html'), page('Draft'));
+    await fs.writeFile(path.join(root, '404.html'), page('Not found'));
+    await fs.writeFile(path.join(root, 'search-index.json'), '{"docs":[],"terms":{}}');
+    await fs.writeFile(path.join(root, 'robots.txt'), 'User-agent: *\nDisallow: /drafts/\nSitemap: https://example.com/sitemap-index.xml\n');
+    await fs.writeFile(path.join(root, 'sitemap-index.xml'), '<sitemapindex><sitemap><loc>https://example.com/sitemap-0.xml</loc></sitemap></sitemapindex>');
+    const urls = ['/', '/listed/', '/hidden/', '/gone/', '/drafts/wip/'];
+    await fs.writeFile(path.join(root, 'sitemap-0.xml'), `<urlset>${urls.map(u => `<url><loc>https://example.com${u}</loc></url>`).join('')}</urlset>`);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('diffs the sitemap and robots rules against the built pages', async () => {
+    const { crawlability } = (await generateReport(root)).summary;
+    expect(crawlability).toEqual({
+      sitemaps: ['sitemap-index.xml', 'sitemap-0.xml'],
+      sitemapUrlCount: 5,
+      missingFromSitemap: ['/unlisted/'],
+      sitemapUrlsWithoutPage: ['https://example.com/gone/'],
+      noindexInSitemap: ['https://example.com/hidden/'],
+      blockedByRobots: [{ url: '/drafts/wip/', rule: 'Disallow: /drafts/' }],
+    });
+  });
+
+  it('treats .json next to built pages as data, not documents', async () => {
+    const { documents } = await generateReport(root);
+    expect(documents.map(d => path.basename(d.filePath))).not.toContain('search-index.json');
+    expect(documents).toHaveLength(6);
+  });
+});
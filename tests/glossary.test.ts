@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import { loadGlossary, rehypeGlossary, type GlossaryTerm } from '../src/lib/rehype-glossary';
+
+type El = { type: string; tagName?: string; value?: string; properties?: Record<string, unknown>; children?: El[] };
+
+const terms: GlossaryTerm[] = [
+  { id: 'rpc', term: 'RPC', aliases: ['JSON-RPC'], definition: 'Node endpoint.' },
+  { id: 'rpc-handler', term: 'RPC Handler', aliases: [], definition: 'Endpoint rotation.' },
+  { id: 'worker', term: 'Worker', aliases: ['Cloudflare Worker'], definition: 'Edge runtime.' },
+];
+const text = (value: string): El => ({ type: 'text', value });
+const el = (tagName: string, ...children: El[]): El => ({ type: 'element', tagName, properties: {}, children });
+const links = (tree: El): Array<{ href: unknown; text: string; tip: string }> =>
+  (tree.children ?? []).flatMap((child) =>
+    String(child.properties?.className) === 'glossary-term'
+      ? [{ href: child.children![0].properties!.href, text: child.children![0].children![0].value!, tip: child.children![1].children![0].value! }]
+      : links(child));
+
+describe('rehypeGlossary', () => {
+  it('links the first mention of each term, preferring the longest spelling', () => {
+    const tree = el('root',
+      el('p', text('The RPC Handler picks an RPC for each Cloudflare Workers request.')),
+      el('p', text('Another RPC and Worker mention stays plain.')),
+    );
+    rehypeGlossary({ terms })(tree);
+    expect(links(tree)).toEqual([
+      { href: '/glossary#rpc-handler', text: 'RPC Handler', tip: 'Endpoint rotation.' },
+      { href: '/glossary#rpc', text: 'RPC', tip: 'Node endpoint.' },
+      { href: '/glossary#worker', text: 'Cloudflare Workers', tip: 'Edge runtime.' },
+    ]);
+    expect(tree.children![0].children!.at(-1)).toEqual(text(' request.'));
+    expect(tree.children![1].children).toEqual([text('Another RPC and Worker mention stays plain.')]);
+  });
+
+  it('describes the link by its tooltip', () => {
+    const tree = el('root', el('p', text('A worker.')));
+    rehypeGlossary({ terms })(tree);
+    const [link, tip] = tree.children![0].children![1].children!;
+    expect(link.properties).toEqual({ href: '/glossary#worker', ariaDescribedBy: 'glossary-tip-worker' });
+    expect(tip.properties).toMatchObject({ id: 'glossary-tip-worker', role: 'tooltip' });
+  });
+
+  it('skips links, code, headings and partial words', () => {
+    const tree = el('root',
+      el('h2', text('Why RPC')),
+      el('p', el('a', text('RPC docs')), text(' and '), el('code', text('Worker')), text(' and a rpc-handler package and JSON-RPCs')),
+    );
+    rehypeGlossary({ terms })(tree);
+    expect(links(tree)).toEqual([{ href: '/glossary#rpc', text: 'JSON-RPCs', tip: 'Node endpoint.' }]);
+  });
+
+  it('loads every term in src/content/glossary', () => {
+    const loaded = loadGlossary(path.resolve(__dirname, '../src/content/glossary'));
+    expect(loaded.find((t) => t.id === 'rpc-handler')).toMatchObject({ term: 'RPC Handler', aliases: [] });
+    expect(loaded.every((t) => t.term && t.definition)).toBe(true);
+  });
+});
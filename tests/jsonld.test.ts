@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { lintJsonLd } from '../scripts/seo-audit';
+
+const article = {
+  '@context': 'https://schema.org',
+  '@type': 'Article',
+  headline: 'Production-safe UUPS',
+  datePublished: '2024-03-01',
+  dateModified: '2024-03-05T10:00:00Z',
+  description: 'Upgrade safety.',
+  author: { '@type': 'Person', name: 'Keyrxng' },
+  image: 'https://keyrxng.xyz/og/writing-production-safe-uups.png',
+  keywords: 'Solidity, UUPS',
+  mainEntityOfPage: { '@type': 'WebPage', '@id': 'https://keyrxng.xyz/writing/production-safe-uups' },
+  publisher: { '@type': 'Organization', name: 'Keyrxng', logo: { '@type': 'ImageObject', url: 'https://keyrxng.xyz/favicon.svg' } },
+};
+
+describe('lintJsonLd', () => {
+  it('accepts a complete Article', () => {
+    const r = lintJsonLd([article]);
+    expect(r.required).toEqual([]);
+    expect(r.recommended).toEqual([]);
+    expect(r.dates).toEqual([]);
+    expect(r.images).toEqual(['https://keyrxng.xyz/og/writing-production-safe-uups.png', 'https://keyrxng.xyz/favicon.svg']);
+  });
+
+  it('flags missing and stringified-undefined properties', () => {
+    const { image: _image, ...noImage } = article;
+    const r = lintJsonLd([{ ...noImage, keywords: 'undefined' }]);
+    expect(r.required).toContain('Article: missing required "image"');
+    expect(r.recommended).toContain('Article: missing recommended "keywords"');
+  });
+
+  it('rejects non-ISO dates', () => {
+    const r = lintJsonLd([{ ...article, dateModified: 'Aug 18, 2025' }]);
+    expect(r.dates).toEqual(['Article: dateModified "Aug 18, 2025" is not an ISO 8601 date']);
+  });
+
+  it('checks breadcrumb positions are sequential and complete', () => {
+    const r = lintJsonLd([{
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Writing', item: 'https://keyrxng.xyz/writing' },
+        { '@type': 'ListItem', position: 3, name: 'Post' },
+      ],
+    }]);
+    expect(r.positions).toEqual(['BreadcrumbList: item 2 has position 3 (expected 2)']);
+  });
+
+  it('requires @context on top-level nodes', () => {
+    expect(lintJsonLd([{ '@type': 'WebSite', name: 'Keyrxng', url: 'https://keyrxng.xyz' }]).required).toEqual(['WebSite is missing @context']);
+  });
+});
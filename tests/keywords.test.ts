@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { generateReport, type Report } from '../scripts/seo-audit';
+
+describe('target keywords', () => {
+  let root: string;
+  let report: Report;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-keywords-'));
+    await fs.writeFile(path.join(root, 'handler.mdx'), [
+      '---',
+      'title: "Ranking RPC endpoints by latency"',
+      'description: "Latency probes decide which endpoint serves the next request."',
+      'targetKeywords: ["RPC endpoint", "failover"]',
+      '---',
+      '# Ranking RPC endpoints',
+      '',
+      'Latency probes rank every RPC endpoint before traffic reaches it.',
+      '',
+      'Slow endpoints drop to the back of the list until the next probe; failover is covered elsewhere.',
+    ].join('\n'));
+    await fs.writeFile(path.join(root, 'failover.mdx'), [
+      '---',
+      'title: "Failover for flaky providers"',
+      'targetKeywords:',
+      '  - failover',
+      '---',
+      '# Failover',
+      '',
+      'Failover moves traffic away from failing providers. Failover keeps requests flowing.',
+    ].join('\n'));
+    report = await generateReport(root);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const targets = (file: string) => report.documents.find(d => d.filePath.endsWith(file))!.keywordTargets!;
+
+  it('matches stemmed phrases in each page element', () => {
+    const [endpoint] = targets('handler.mdx');
+    expect(endpoint).toMatchObject({ keyword: 'RPC endpoint', inTitle: true, inH1: true, inDescription: false, inFirstParagraph: true });
+    expect(endpoint.density).toBeGreaterThan(0);
+  });
+
+  it('reports pages that rank higher for the same keyword', () => {
+    const failover = targets('handler.mdx')[1];
+    expect(failover.rank).toBeGreaterThan(1);
+    expect(failover.outrankedBy.map(o => path.basename(o.filePath))).toEqual(['failover.mdx']);
+    expect(targets('failover.mdx')[0]).toMatchObject({ keyword: 'failover', inTitle: true, outrankedBy: [] });
+  });
+});
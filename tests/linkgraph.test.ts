@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { clickDepths, pageRank } from '../scripts/seo-audit';
+
+const graph = (edges: Record<string, string[]>) => new Map(Object.entries(edges).map(([k, v]) => [k, new Set(v)]));
+
+describe('clickDepths', () => {
+  it('counts clicks from the start page and omits unreachable pages', () => {
+    const depths = clickDepths(graph({ home: ['index'], index: ['a', 'home'], a: ['b'], b: [], orphan: ['a'] }), 'home');
+    expect(Object.fromEntries(depths)).toEqual({ home: 0, index: 1, a: 2, b: 3 });
+  });
+});
+
+describe('pageRank', () => {
+  it('sums to 1 and favours pages with more inbound links', () => {
+    const rank = pageRank(graph({ home: ['a', 'b'], a: ['b'], b: ['home'], c: [] }));
+    const total = Array.from(rank.values()).reduce((s, r) => s + r, 0);
+    expect(total).toBeCloseTo(1, 6);
+    expect(rank.get('b')!).toBeGreaterThan(rank.get('a')!);
+    expect(rank.get('a')!).toBeGreaterThan(rank.get('c')!);
+  });
+});
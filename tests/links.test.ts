@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { routeKeysForFile, resolveInternalHref } from '../scripts/seo-audit';
+
+describe('routeKeysForFile', () => {
+  it('maps directory indexes to both trailing-slash variants', () => {
+    expect(routeKeysForFile('index.html')).toEqual(['/', '/index.html']);
+    expect(routeKeysForFile('writing/foo/index.html')).toEqual(['/writing/foo/', '/writing/foo', '/writing/foo/index.html']);
+  });
+
+  it('maps flat html files and passes assets through', () => {
+    expect(routeKeysForFile('404.html')).toEqual(['/404', '/404/', '/404.html']);
+    expect(routeKeysForFile('og/work-rpc-handler.png')).toEqual(['/og/work-rpc-handler.png']);
+  });
+});
+
+describe('resolveInternalHref', () => {
+  it('resolves relative links against the containing page', () => {
+    expect(resolveInternalHref('./part-2', '/writing/part-1/')).toEqual({ pathname: '/writing/part-1/part-2', fragment: undefined });
+    expect(resolveInternalHref('../part-2#intro', '/writing/part-1/')).toEqual({ pathname: '/writing/part-2', fragment: 'intro' });
+  });
+
+  it('treats bare fragments as same-page anchors', () => {
+    expect(resolveInternalHref('#main', '/about/')).toEqual({ pathname: '/about/', fragment: 'main' });
+  });
+
+  it('ignores non-navigable schemes', () => {
+    expect(resolveInternalHref('mailto:keyrxng@proton.me', '/')).toBeNull();
+    expect(resolveInternalHref('javascript:void(0)', '/')).toBeNull();
+  });
+});
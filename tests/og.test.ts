@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fitTitle, lineCount, renderOgImage, OG_HEIGHT, OG_WIDTH, type OgCard } from '../src/lib/og';
+
+describe('fitTitle', () => {
+  it('keeps short titles at the largest size', () => {
+    expect(fitTitle('Plugin template', { maxLines: 2 })).toBe(72);
+  });
+
+  it('shrinks long titles until they fit the line budget', () => {
+    const long = 'Hardening a micro-kernel for Telegram bots: deterministic forks, permits and a hybrid Worker architecture';
+    const size = fitTitle(long, { maxLines: 3 });
+    expect(size).toBeLessThan(72);
+    expect(size).toBeGreaterThanOrEqual(40);
+    expect(lineCount(long, size, 1072)).toBeLessThanOrEqual(3);
+    expect(fitTitle(long, { maxLines: 2 })).toBeLessThan(size);
+  });
+
+  it('bottoms out at minSize and leaves the rest to line clamping', () => {
+    expect(fitTitle('word '.repeat(80), { maxLines: 2, minSize: 40 })).toBe(40);
+  });
+});
+
+describe('renderOgImage', () => {
+  it('renders a 1200×630 PNG', async () => {
+    const png = await renderOgImage({
+      kind: 'work',
+      title: 'Telegram micro-kernel',
+      summary: 'A kernel that dispatches plugin work.',
+      clientOrProject: 'UbiquityOS',
+      year: '2024',
+      outcomes: [{ value: '3×', metric: 'faster cold starts' }],
+      techIcons: [{ name: 'Astro', icon: '/tech-icons/astro.svg' }, { name: 'Drizzle', icon: '/tech-icons/drizzle.webp' }],
+    }, 'dark', null);
+    const view = new DataView(png.buffer, png.byteOffset);
+    expect([...png.slice(1, 4)].map((c) => String.fromCharCode(c)).join('')).toBe('PNG');
+    expect([view.getUint32(16), view.getUint32(20)]).toEqual([OG_WIDTH, OG_HEIGHT]);
+  });
+
+  it('skips SVG icons that crash resvg', async () => {
+    // webauthn.svg has an invisible ellipse that makes resvg panic and abort the process
+    const png = await renderOgImage({
+      kind: 'work',
+      title: 'Passkey wallet',
+      summary: 'Signing without seed phrases.',
+      clientOrProject: 'Ubiquity',
+      year: '2024',
+      outcomes: [],
+      techIcons: [{ name: 'WebAuthn', icon: '/tech-icons/webauthn.svg' }, { name: 'Astro', icon: '/tech-icons/astro.svg' }],
+    }, 'light', null);
+    expect([...png.slice(1, 4)].map((c) => String.fromCharCode(c)).join('')).toBe('PNG');
+  });
+
+  it('serves unchanged cards from the disk cache and re-renders changed ones', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'og-cache-'));
+    try {
+      const card: OgCard = { kind: 'page', eyebrow: 'Stack', title: 'Tools chosen to fit constraints' };
+      await renderOgImage(card, 'light', dir);
+      const [file] = await readdir(dir);
+      await writeFile(path.join(dir, file), 'cached');
+      expect((await renderOgImage(card, 'light', dir)).toString()).toBe('cached');
+      await renderOgImage(card, 'dark', dir);
+      await renderOgImage({ ...card, title: 'Something else' }, 'light', dir);
+      expect(await readdir(dir)).toHaveLength(3);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { generateReport, type Report } from '../scripts/seo-audit';
+
+describe('performance summary', () => {
+  let root: string;
+  let report: Report;
+  const write = async (rel: string, content: string | Buffer) => {
+    await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+    await fs.writeFile(path.join(root, rel), content);
+  };
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-perf-'));
+    await write('index.html', `<html lang="en"><head><title>Performance fixture</title>
+      <link rel="stylesheet" href="/global.css"><script src="/app.js"></script></head>
+      <body><h1>Home</h1><code>x</code><img src="/icons/logo.png" alt="Logo"><img src="/icons/logo.png" alt="Logo again"></body></html>`);
+    await write('global.css', "@import url('/fonts.css');\nbody { background: url(bg.svg); font-family: Manrope, var(--font-x); }\ncode { font-family: ui-monospace, Y; }");
+    await write('fonts.css', [
+      ":root { --font-x: 'X', sans-serif; }",
+      "@font-face { font-family: X; src: url('/fonts/x.ttf') format('truetype'); }",
+      "@font-face { font-family: X; font-weight: 700; src: url('/fonts/x-bold.woff2'); }",
+      "@font-face { font-family: X; src: url('/fonts/x-cyrillic.woff2'); unicode-range: U+0400-04FF; }",
+      "@font-face { font-family: X; font-style: italic; src: url('/fonts/x-italic.woff2'); }",
+      "@font-face { font-family: Y; src: url('/fonts/y.woff2'); }",
+    ].join('\n'));
+    await write('fonts/x.ttf', Buffer.alloc(3000));
+    await write('fonts/x-bold.woff2', Buffer.alloc(500));
+    await write('fonts/x-cyrillic.woff2', Buffer.alloc(400));
+    await write('fonts/x-italic.woff2', Buffer.alloc(300));
+    await write('fonts/y.woff2', Buffer.alloc(200));
+    await write('fonts/unused.woff2', Buffer.alloc(100));
+    await write('bg.svg', '<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+    await write('app.js', 'console.log(1);');
+    const png = Buffer.alloc(6000);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png);
+    png.writeUInt32BE(64, 16);
+    png.writeUInt32BE(64, 20);
+    await write('icons/logo.png', png);
+    report = await generateReport({ rootDir: root, config: { performance: { budgetsKb: { font: 2 } } } });
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('adds up everything a route makes the browser fetch', () => {
+    const [page] = report.summary.performance!.pages;
+    expect(page.route).toBe('/');
+    expect(page.bytes).toMatchObject({ font: 3000 + 500, js: 15, image: 6000 + 46 });
+    expect(page.bytes.css).toBeGreaterThan(0);
+    expect(page.requests).toBe(8);
+  });
+
+  it('counts only the font faces the page renders with', () => {
+    const reasons = Object.fromEntries(report.summary.performance!.unoptimizedAssets.map(a => [a.file, a.reason]));
+    // No italic text, no Cyrillic text, and Y sits behind a generic family
+    for (const file of ['fonts/x-italic.woff2', 'fonts/x-cyrillic.woff2', 'fonts/y.woff2']) {
+      expect(reasons[file]).toBe('declared in @font-face but used by no page');
+    }
+  });
+
+  it('flags unoptimized assets, budgets and render-blocking resources', () => {
+    const reasons = Object.fromEntries(report.summary.performance!.unoptimizedAssets.map(a => [a.file, a.reason]));
+    expect(reasons['fonts/x.ttf']).toMatch(/WOFF2/);
+    expect(reasons['fonts/unused.woff2']).toBe('not referenced by any page');
+    expect(reasons['icons/logo.png']).toMatch(/64×64 PNG icon/);
+    expect(reasons['global.css']).toMatch(/@import chain of 1/);
+    const warnings = report.documents.find(d => d.filePath.endsWith('index.html'))!.warnings;
+    expect(warnings.filter(w => w.ruleId === 'perf-budget').map(w => w.message)).toEqual(['FONT weight 3.4 KB exceeds budget of 2 KB']);
+    expect(warnings.filter(w => w.ruleId === 'perf-render-blocking')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { generateReport, locateSentence, type Report } from '../scripts/seo-audit';
+
+describe('locateSentence', () => {
+  const source = [
+    '---',
+    'title: "Example"',
+    '---',
+    '# Example',
+    '',
+    'The first paragraph is short.',
+    '',
+    'A [provider registry](/writing/registry/) keeps **every endpoint** ranked,',
+    "so the handler doesn't wait on a dead one.",
+  ].join('\n');
+
+  it('finds the line a sentence starts on through markdown syntax', () => {
+    expect(locateSentence(source, 'The first paragraph is short.')).toBe(6);
+    expect(locateSentence(source, "A provider registry keeps every endpoint ranked, so the handler doesn’t wait on a dead one.")).toBe(8);
+  });
+
+  it('returns null when the sentence is not in the source', () => {
+    expect(locateSentence(source, 'Nothing like this appears anywhere.')).toBeNull();
+  });
+});
+
+describe('readability diagnostics', () => {
+  let root: string;
+  let report: Report;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-readability-'));
+    await fs.writeFile(path.join(root, 'post.mdx'), [
+      '---',
+      'title: "Readability"',
+      '---',
+      '# Readability',
+      '',
+      'We ship small changes. We test them. Then we ship again.',
+      '',
+      '## Architecture',
+      '',
+      'The orchestration layer continuously reconciles heterogeneous infrastructure configurations',
+      'across geographically distributed availability zones, automatically remediating inconsistencies.',
+      '',
+      '## Wrap-up',
+      '',
+      'Keep it simple. Cats sit on mats. Dogs run fast.',
+    ].join('\n'));
+    report = await generateReport(root);
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('scores each H2 section separately', () => {
+    const [doc] = report.documents;
+    expect(doc.readabilitySections.map(s => s.heading)).toEqual(['', 'Architecture', 'Wrap-up']);
+    const [intro, architecture, wrapUp] = doc.readabilitySections;
+    expect(architecture.fleschKincaidGrade).toBeGreaterThan(intro.fleschKincaidGrade + 10);
+    expect(architecture.gunningFog).toBeGreaterThan(wrapUp.gunningFog);
+    expect(doc.smogIndex).toBeGreaterThan(0);
+    expect(doc.colemanLiau).toBeGreaterThan(0);
+  });
+
+  it('maps the hardest sentence to its source line', () => {
+    const [doc] = report.documents;
+    expect(doc.hardSentences).toHaveLength(1);
+    expect(doc.hardSentences[0]).toMatchObject({ section: 'Architecture', words: 16, line: 10 });
+    const warning = doc.warnings.find(w => w.ruleId === 'readability-sentence');
+    expect(warning?.message).toMatch(/^Line 10: 16-word sentence at grade \d+\.\d in "Architecture"/);
+  });
+});
+
+describe('readability diagnostics on built pages', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-readability-built-'));
+    await fs.mkdir(path.join(root, 'dist/writing/readability'), { recursive: true });
+    await fs.mkdir(path.join(root, 'src/content/writing'), { recursive: true });
+    const hard = 'The orchestration layer continuously reconciles heterogeneous infrastructure configurations across geographically distributed availability zones, automatically remediating inconsistencies.';
+    await fs.writeFile(path.join(root, 'dist/writing/readability/index.html'),
+      `<html><head><title>Readability</title></head><body><main><h1>Readability</h1><p>We ship small changes. We test them.</p><h2>Architecture</h2><p>${hard}</p></main></body></html>`);
+    await fs.writeFile(path.join(root, 'src/content/writing/readability.mdx'), [
+      '---',
+      'title: "Readability"',
+      '---',
+      'We ship small changes. We test them.',
+      '',
+      '## Architecture',
+      '',
+      'The orchestration layer continuously reconciles heterogeneous infrastructure configurations',
+      'across geographically distributed availability zones, automatically remediating inconsistencies.',
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('reports the source line of a hard sentence found in the HTML', async () => {
+    const report = await generateReport({ rootDir: path.join(root, 'dist'), sourceRoot: path.join(root, 'src') });
+    const [doc] = report.documents;
+    expect(doc.hardSentences[0]).toMatchObject({ line: 8, source: path.relative(process.cwd(), path.join(root, 'src/content/writing/readability.mdx')) });
+    const warning = doc.warnings.find(w => w.ruleId === 'readability-sentence');
+    expect(warning?.message).toMatch(/^Line 8: 16-word sentence at grade \d+\.\d in "Architecture"/);
+  });
+});
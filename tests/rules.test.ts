@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, resolveRules, unknownRuleIds } from '../scripts/seo-audit';
+
+describe('globToRegExp', () => {
+  it('keeps single stars within one path segment', () => {
+    expect(globToRegExp('/tags/*').test('/tags/AI')).toBe(true);
+    expect(globToRegExp('/tags/*').test('/tags/AI/page-2')).toBe(false);
+  });
+
+  it('lets a leading **/ match zero or more directories', () => {
+    const re = globToRegExp('**/technologies/*.json');
+    expect(re.test('technologies/bun.json')).toBe(true);
+    expect(re.test('content/technologies/bun.json')).toBe(true);
+    expect(re.test('content/technologies/bun.mdx')).toBe(false);
+  });
+});
+
+describe('resolveRules', () => {
+  it('applies built-in defaults when there is no config', () => {
+    const rules = resolveRules({}, 'writing/foo/index.html', '/writing/foo/');
+    expect(rules?.['title-length']).toEqual({ severity: 'warn', min: 15, max: 65 });
+  });
+
+  it('layers config rules and matching route overrides in order', () => {
+    const rules = resolveRules(
+      {
+        rules: { 'title-length': { max: 70 }, 'h1-missing': 'error' },
+        overrides: [{ files: '/tags/*', rules: { 'title-length': { min: 5 }, 'h1-missing': 'off' } }],
+      },
+      'tags/AI/index.html',
+      '/tags/AI/',
+    );
+    expect(rules?.['title-length']).toEqual({ severity: 'warn', min: 5, max: 70 });
+    expect(rules?.['h1-missing'].severity).toBe('off');
+  });
+
+  it('returns null for ignored files', () => {
+    const config = { overrides: [{ files: '**/competencies/*.json', ignore: true }] };
+    expect(resolveRules(config, 'content/competencies/edge-architectures.json', '/content/competencies/edge-architectures')).toBeNull();
+  });
+});
+
+describe('unknownRuleIds', () => {
+  it('lists configured rule IDs that no check defines', () => {
+    const config = {
+      rules: { 'title-length': 'error' as const, 'title-lenght': 'off' as const },
+      overrides: [{ files: '/tags/*', rules: { 'readability-sentences': 'off' as const, 'h1-missing': 'off' as const } }],
+    };
+    expect(unknownRuleIds(config)).toEqual(['readability-sentences', 'title-lenght']);
+    expect(unknownRuleIds({ rules: { 'house-style': 'warn' } }, { 'house-style': { description: '', defaults: { severity: 'warn' } } })).toEqual([]);
+  });
+});
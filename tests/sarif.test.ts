@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { sourceFileForRoute } from '../scripts/seo-audit';
+
+const sources = [
+  'content/writing/ghost-in-the-machine.mdx',
+  'content/work/rpc-handler.md',
+  'content/technologies/typescript.json',
+  'pages/index.astro',
+  'pages/404.astro',
+  'pages/about.astro',
+  'pages/writing/[slug].astro',
+  'pages/tags/[tag].astro',
+  'pages/docs/[...path].astro',
+  'pages/og/[type]-[slug].png.ts',
+];
+
+describe('sourceFileForRoute', () => {
+  it('maps collection entries to their content files', () => {
+    expect(sourceFileForRoute('/writing/ghost-in-the-machine/', sources)).toBe('content/writing/ghost-in-the-machine.mdx');
+    expect(sourceFileForRoute('/work/rpc-handler/', sources)).toBe('content/work/rpc-handler.md');
+  });
+
+  it('falls back to static and dynamic pages', () => {
+    expect(sourceFileForRoute('/', sources)).toBe('pages/index.astro');
+    expect(sourceFileForRoute('/404', sources)).toBe('pages/404.astro');
+    expect(sourceFileForRoute('/about/', sources)).toBe('pages/about.astro');
+    expect(sourceFileForRoute('/tags/Account Abstraction/', sources)).toBe('pages/tags/[tag].astro');
+    expect(sourceFileForRoute('/writing/draft-without-entry/', sources)).toBe('pages/writing/[slug].astro');
+    expect(sourceFileForRoute('/docs/a/b/', sources)).toBe('pages/docs/[...path].astro');
+    expect(sourceFileForRoute('/contact/', sources)).toBeNull();
+  });
+});
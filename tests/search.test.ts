@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTerm } from '../scripts/seo-audit';
+import { EXCERPT_LENGTH, buildSearchIndex, excerptFor, highlight, markdownText, searchIndex, searchTerms, snippet, type SearchDocument } from '../src/lib/search';
+
+const doc = (url: string, fields: Partial<SearchDocument>): SearchDocument => ({
+  url, kind: 'writing', title: '', summary: '', headings: [], sections: [], ...fields,
+});
+
+describe('search index', () => {
+  const index = buildSearchIndex([
+    doc('/writing/body', { title: 'Field notes', sections: ['We deployed the RPC handler to production twice.'] }),
+    doc('/writing/title', { title: 'Deploying an RPC handler', sections: ['Notes.'] }),
+    doc('/work/heading', { kind: 'work', title: 'Payments', headings: ['Deployment checklist'], sections: ['GitHub webhooks and a testnet.'] }),
+    doc('/writing/js', { title: 'Class fields', sections: ['The constructor runs before toString.'] }),
+  ]);
+
+  it('stems terms like the SEO audit and keeps names the audit treats as stopwords', () => {
+    expect(searchTerms('Deploying the GitHub API')).toEqual([normalizeTerm('deploying'), 'github', 'api']);
+    expect(index.terms[normalizeTerm('deployed')]).toEqual([0, 1, 1, 8]);
+  });
+
+  it('ranks title over heading over body matches and requires every word', () => {
+    expect(searchIndex(index, 'deploy').map((r) => r.doc.u)).toEqual(['/writing/title', '/work/heading', '/writing/body']);
+    expect(searchIndex(index, 'deploy rpc').map((r) => r.doc.u)).toEqual(['/writing/title', '/writing/body']);
+    expect(searchIndex(index, 'deploy kubernetes')).toEqual([]);
+    expect(searchIndex(index, 'the of')).toEqual([]);
+    expect(searchIndex(index, 'constructor').map((r) => r.doc.u)).toEqual(['/writing/js']);
+  });
+
+  it('matches prefixes of the typed word', () => {
+    expect(searchIndex(index, 'githu').map((r) => r.doc.u)).toEqual(['/work/heading']);
+    expect(searchIndex(index, 'deplo').length).toBe(3);
+    expect(searchIndex(index, 'test').map((r) => r.doc.u)).toEqual(['/work/heading']);
+  });
+
+  it('ships the opening of each section, not the whole body', () => {
+    const [long] = buildSearchIndex([
+      doc('/writing/long', { summary: 'A summary.', sections: [`Intro ${'word '.repeat(60)}`, 'Caching keeps the RPC handler fast.', `${'filler '.repeat(40)}tail`] }),
+    ]).docs;
+    expect(long.x).toHaveLength(3);
+    expect(long.x[0].length).toBeLessThanOrEqual(EXCERPT_LENGTH + 1);
+    expect(long.x[0].endsWith('word…')).toBe(true);
+    expect(excerptFor(long, 'caching')).toBe('Caching keeps the RPC handler fast.');
+    // Indexed, but past the excerpt: the snippet falls back to the summary
+    expect(excerptFor(long, 'tail')).toBe('A summary.');
+  });
+});
+
+describe('snippets', () => {
+  it('marks matching words, including inflections and prefixes', () => {
+    expect(highlight('Deployed twice, deploys daily.', 'deploy')).toEqual([
+      { text: 'Deployed', match: true },
+      { text: ' twice, ', match: false },
+      { text: 'deploys', match: true },
+      { text: ' daily.', match: false },
+    ]);
+  });
+
+  it('windows long text around the first match', () => {
+    const text = `${'lorem ipsum '.repeat(40)}the kernel dispatches events ${'dolor sit '.repeat(40)}`;
+    const parts = snippet(text, 'kernel', 80);
+    expect(parts[0]).toEqual({ text: '…', match: false });
+    expect(parts.at(-1)).toEqual({ text: '…', match: false });
+    expect(parts.filter((p) => p.match).map((p) => p.text)).toEqual(['kernel']);
+    expect(parts.map((p) => p.text).join('').length).toBeLessThanOrEqual(82);
+  });
+});
+
+describe('markdownText', () => {
+  it('splits prose at headings', () => {
+    expect(markdownText('Opening.\n\n## Setup\n\nInstall it.\n\n### Details\n\n## Empty\n').sections).toEqual(['Opening.', 'Install it.']);
+  });
+
+  it('keeps prose and headings, drops code, imports and JSX', () => {
+    const { headings, sections } = markdownText([
+      "import Chart from '../components/Chart.astro';",
+      '',
+      '## Why **retries** matter',
+      '',
+      'See [the playbook](/writing/reliability-playbook) and `fetchAll()`.',
+      '',
+      '```ts',
+      'const secret = 1;',
+      '```',
+      '',
+      '<Chart data={points} />',
+      '- one item',
+    ].join('\n'));
+    expect(headings).toEqual(['Why retries matter']);
+    expect(sections).toEqual(['See the playbook and fetchAll(). one item']);
+  });
+});
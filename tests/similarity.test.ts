@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { cosineSimilarity, shingles, jaccard } from '../scripts/seo-audit';
+
+describe('cosineSimilarity', () => {
+  it('is 1 for parallel vectors and 0 for disjoint ones', () => {
+    const a = new Map([['rpc', 2], ['latenc', 1]]);
+    const b = new Map([['rpc', 4], ['latenc', 2]]);
+    const c = new Map([['permit', 3]]);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+    expect(cosineSimilarity(a, c)).toBe(0);
+    expect(cosineSimilarity(a, new Map())).toBe(0);
+  });
+});
+
+describe('shingles / jaccard', () => {
+  it('scores boilerplate descriptions as near-duplicates', () => {
+    const a = shingles('Posts tagged “AI” — technical essays, field notes, and reliability deep dives.');
+    const b = shingles('Posts tagged “Web3” — technical essays, field notes, and reliability deep dives.');
+    expect(jaccard(a, b)).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('keeps distinct descriptions apart', () => {
+    const a = shingles('Ranking RPC endpoints by latency and rotating on failure.');
+    const b = shingles('Gasless onboarding with permits and a relayer.');
+    expect(jaccard(a, b)).toBe(0);
+  });
+
+  it('falls back to a single shingle for very short text', () => {
+    expect(Array.from(shingles('Hello world', 3))).toEqual(['hello world']);
+  });
+});
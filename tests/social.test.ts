@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { readImageInfo } from '../scripts/seo-audit';
+
+function pngHeader(width: number, height: number): Buffer {
+  const buf = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buf, 0);
+  buf.writeUInt32BE(13, 8);
+  buf.write('IHDR', 12, 'latin1');
+  buf.writeUInt32BE(width, 16);
+  buf.writeUInt32BE(height, 20);
+  return buf;
+}
+
+describe('readImageInfo', () => {
+  it('reads PNG dimensions from the IHDR chunk', () => {
+    expect(readImageInfo(pngHeader(1200, 630))).toEqual({ format: 'png', width: 1200, height: 630 });
+  });
+
+  it('detects other formats without dimensions', () => {
+    expect(readImageInfo(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toEqual({ format: 'jpeg' });
+    expect(readImageInfo(Buffer.from('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg">'))).toEqual({ format: 'svg' });
+    expect(readImageInfo(Buffer.from('not an image'))).toEqual({ format: 'unknown' });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { normalizeTerm, computeTfidfEnhanced } from '../scripts/seo-audit';
-import { canonicalizeCorpus } from '../scripts/seo-audit';
+import { canonicalizeCorpus, cosineSimilarity, tfidfVectors } from '../scripts/seo-audit';
 
 describe('normalizeTerm', () => {
   it('lowercases and stems plural words', () => {
@@ -42,3 +42,26 @@ describe('canonicalizeCorpus', () => {
     expect(can.get(norm)).toMatch(/outcom/i);
   });
 });
+
+describe('tfidfVectors', () => {
+  const vectors = tfidfVectors([
+    { id: 'rpc', terms: ['rpc', 'endpoints', 'latency', 'latency', 'retries'] },
+    { id: 'rpc-2', terms: ['rpc', 'endpoint', 'latency', 'failover'] },
+    { id: 'types', terms: ['types', 'unions', 'compiler', 'retries'] },
+  ]);
+
+  it('drops terms found in a single document and stems the rest', () => {
+    expect([...vectors.get('rpc')!.keys()].sort()).toEqual(['endpoints', 'latency', 'retries', 'rpc'].map(normalizeTerm).sort());
+    expect(vectors.get('types')!.has(normalizeTerm('compiler'))).toBe(false);
+  });
+
+  it('weights repeated terms sublinearly', () => {
+    const rpc = vectors.get('rpc')!;
+    expect(rpc.get(normalizeTerm('latency'))! / rpc.get('rpc')!).toBeCloseTo(1 + Math.log(2));
+  });
+
+  it('makes documents on the same topic most similar', () => {
+    const sim = (a: string, b: string) => cosineSimilarity(vectors.get(a)!, vectors.get(b)!);
+    expect(sim('rpc', 'rpc-2')).toBeGreaterThan(sim('rpc', 'types'));
+  });
+});
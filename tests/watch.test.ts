@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { formatWatchUpdate, generateReport } from '../scripts/seo-audit';
+
+describe('formatWatchUpdate', () => {
+  let root: string;
+  const post = (title: string) =>
+    `---\ntitle: "${title}"\ndescription: "A short description that is long enough to pass the length rule."\n---\n# ${title}\n\nRetries back off exponentially so a flaky provider does not take the queue down.\n`;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-watch-'));
+    await fs.writeFile(path.join(root, 'retries.mdx'), post('Retry strategies for flaky providers'));
+    await fs.writeFile(path.join(root, 'queues.mdx'), post('Queue design for background jobs'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('prints the saved file and corpus-level changes', async () => {
+    const before = await generateReport(root);
+    const changed = path.join(root, 'queues.mdx');
+    await fs.writeFile(changed, post('Retry strategies for flaky providers'));
+    const after = await generateReport(root);
+
+    const lines = formatWatchUpdate(before, after, [changed]);
+    expect(lines[0]).toMatch(/^▸ queues\.mdx — \d+ words · Flesch [\d.-]+ · FK [\d.-]+ · Fog [\d.-]+ · SMOG [\d.-]+ · CLI [\d.-]+$/);
+    expect(lines).toContain('    keywords: ' + after.documents.find(d => d.filePath === changed)!.topKeywords!.slice(0, 8).map(k => k.term).join(', '));
+    expect(lines).toContain('    + duplicate title "Retry strategies for flaky providers" (queues.mdx, retries.mdx)');
+
+    await fs.rm(changed);
+    const removed = formatWatchUpdate(after, await generateReport(root), [changed]);
+    expect(removed).toEqual(['✗ queues.mdx removed', '  corpus (1 change):', '    - duplicate title "Retry strategies for flaky providers"']);
+  });
+});